@@ -16,15 +16,24 @@ import History from "./pages/History";
 import Profile from "./pages/Profile";
 import Auth from "./pages/Auth";
 import AdminAuth from "./pages/AdminAuth";
+import AcceptInvite from "./pages/AcceptInvite";
 import AdminDashboard from "./pages/admin/Dashboard";
 import FAQManagement from "./pages/admin/FAQManagement";
 import CategoryManagement from "./pages/admin/CategoryManagement";
+import IntentPatterns from "./pages/admin/IntentPatterns";
+import AssistantSettings from "./pages/admin/AssistantSettings";
 import EscalatedQueries from "./pages/admin/EscalatedQueries";
 import Analytics from "./pages/admin/Analytics";
+import ConfidenceReport from "./pages/admin/ConfidenceReport";
 import OrderManagement from "./pages/admin/OrderManagement";
 import OrderInquiries from "./pages/admin/OrderInquiries";
 import UserManagement from "./pages/admin/UserManagement";
+import CustomerProfile from "./pages/admin/CustomerProfile";
+import DataRequests from "./pages/admin/DataRequests";
+import DataRetention from "./pages/admin/DataRetention";
 import ChatReview from "./pages/admin/ChatReview";
+import RoleManagement from "./pages/admin/RoleManagement";
+import AdminUsers from "./pages/admin/AdminUsers";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -42,6 +51,7 @@ const App = () => (
               {/* Public Routes */}
               <Route path="/auth" element={<Auth />} />
               <Route path="/admin/auth" element={<AdminAuth />} />
+              <Route path="/admin/accept-invite" element={<AcceptInvite />} />
               
               {/* User Routes */}
               <Route path="/" element={
@@ -89,61 +99,117 @@ const App = () => (
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/faq" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="faq.manage">
                   <AdminLayout>
                     <FAQManagement />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/categories" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="faq.manage">
                   <AdminLayout>
                     <CategoryManagement />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
+              <Route path="/admin/intents" element={
+                <AdminProtectedRoute permission="faq.manage">
+                  <AdminLayout>
+                    <IntentPatterns />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
+              <Route path="/admin/settings" element={
+                <AdminProtectedRoute permission="settings.manage">
+                  <AdminLayout>
+                    <AssistantSettings />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
+              <Route path="/admin/retention" element={
+                <AdminProtectedRoute permission="settings.manage">
+                  <AdminLayout>
+                    <DataRetention />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
               <Route path="/admin/escalated" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="escalations.manage">
                   <AdminLayout>
                     <EscalatedQueries />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/analytics" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="analytics.view">
                   <AdminLayout>
                     <Analytics />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
+              <Route path="/admin/confidence" element={
+                <AdminProtectedRoute permission="analytics.view">
+                  <AdminLayout>
+                    <ConfidenceReport />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
               <Route path="/admin/orders" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="orders.manage">
                   <AdminLayout>
                     <OrderManagement />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/order-inquiries" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="orders.manage">
                   <AdminLayout>
                     <OrderInquiries />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/users" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="users.manage">
                   <AdminLayout>
                     <UserManagement />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
+              <Route path="/admin/users/:userId" element={
+                <AdminProtectedRoute permission="users.manage">
+                  <AdminLayout>
+                    <CustomerProfile />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
+              <Route path="/admin/data-requests" element={
+                <AdminProtectedRoute permission="users.manage">
+                  <AdminLayout>
+                    <DataRequests />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
               <Route path="/admin/chat-review" element={
-                <AdminProtectedRoute>
+                <AdminProtectedRoute permission="chats.manage">
                   <AdminLayout>
                     <ChatReview />
                   </AdminLayout>
                 </AdminProtectedRoute>
               } />
+              <Route path="/admin/admins" element={
+                <AdminProtectedRoute superAdminOnly>
+                  <AdminLayout>
+                    <AdminUsers />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
+              <Route path="/admin/roles" element={
+                <AdminProtectedRoute superAdminOnly>
+                  <AdminLayout>
+                    <RoleManagement />
+                  </AdminLayout>
+                </AdminProtectedRoute>
+              } />
               
               {/* Catch-all route */}
               <Route path="*" element={<NotFound />} />
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Bell, Check, CheckCheck, Trash2, AlertTriangle, Package, ExternalLink } from 'lucide-react';
+import { Bell, Check, CheckCheck, Trash2, AlertTriangle, Package, ExternalLink, MessageSquare, Timer, RotateCcw, UserX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,8 +24,12 @@ export function AdminNotifications() {
   const handleDrillDown = (notification: any) => {
     if (notification.type === 'escalation') {
       navigate('/admin/escalated');
+    } else if (['escalation_reply', 'sla_warning', 'escalation_reopened'].includes(notification.type)) {
+      navigate(`/admin/escalated?escalation=${notification.data?.escalation_id}`);
     } else if (notification.type === 'order_inquiry') {
       navigate('/admin/order-inquiries');
+    } else if (notification.type === 'data_deletion_request') {
+      navigate(`/admin/data-requests?request=${notification.data?.request_id}`);
     }
     setIsOpen(false);
   };
@@ -34,8 +38,16 @@ export function AdminNotifications() {
     switch (type) {
       case 'escalation':
         return <AlertTriangle className="h-4 w-4 text-destructive" />;
+      case 'escalation_reply':
+        return <MessageSquare className="h-4 w-4 text-primary" />;
+      case 'sla_warning':
+        return <Timer className="h-4 w-4 text-destructive" />;
+      case 'escalation_reopened':
+        return <RotateCcw className="h-4 w-4 text-destructive" />;
       case 'order_inquiry':
         return <Package className="h-4 w-4 text-primary" />;
+      case 'data_deletion_request':
+        return <UserX className="h-4 w-4 text-destructive" />;
       default:
         return <Bell className="h-4 w-4 text-muted-foreground" />;
     }
@@ -44,6 +56,8 @@ export function AdminNotifications() {
   const getNotificationVariant = (type: string) => {
     switch (type) {
       case 'escalation':
+      case 'sla_warning':
+      case 'data_deletion_request':
         return 'destructive';
       case 'order_inquiry':
         return 'default';
@@ -147,7 +161,7 @@ export function AdminNotifications() {
                     </div>
 
                     {/* Show relevant data based on notification type */}
-                    {notification.type === 'escalation' && notification.data?.original_question && (
+                    {['escalation', 'sla_warning', 'escalation_reopened'].includes(notification.type) && notification.data?.original_question && (
                       <>
                         <Separator className="my-2" />
                         <div className="text-xs">
@@ -1,12 +1,17 @@
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { ShieldAlert } from 'lucide-react';
+import type { AdminPermission } from '@/lib/permissions';
 
 interface AdminProtectedRouteProps {
   children: React.ReactNode;
+  // Required to open the page; without it any active admin can open it
+  permission?: AdminPermission;
+  superAdminOnly?: boolean;
 }
 
-const AdminProtectedRoute = ({ children }: AdminProtectedRouteProps) => {
-  const { user, adminData, loading } = useAdminAuth();
+const AdminProtectedRoute = ({ children, permission, superAdminOnly }: AdminProtectedRouteProps) => {
+  const { user, adminData, loading, isSuperAdmin, hasPermission } = useAdminAuth();
 
   if (loading) {
     return (
@@ -20,7 +25,18 @@ const AdminProtectedRoute = ({ children }: AdminProtectedRouteProps) => {
     return <Navigate to="/admin/auth" replace />;
   }
 
+  if ((superAdminOnly && !isSuperAdmin) || (permission && !hasPermission(permission))) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-2 text-center p-4">
+        <ShieldAlert className="h-10 w-10 text-muted-foreground" />
+        <h1 className="text-xl font-semibold">Access denied</h1>
+        <p className="text-muted-foreground">Your role does not have access to this page.</p>
+        <Link to="/admin" className="text-primary underline">Back to dashboard</Link>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default AdminProtectedRoute;
\ No newline at end of file
+export default AdminProtectedRoute;
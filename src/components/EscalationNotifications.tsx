@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Bell, X, CheckCircle } from 'lucide-react';
+import { Bell, X, CheckCircle, MessageSquare } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EscalationThread } from '@/components/EscalationThread';
+import { EscalationSurvey } from '@/components/EscalationSurvey';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -16,6 +19,14 @@ interface EscalationNotification {
   resolved_at?: string;
 }
 
+// An escalation with support replies the customer has not read yet
+interface ReplyNotification {
+  escalation_id: string;
+  original_question: string;
+  status: string;
+  unread: number;
+}
+
 interface EscalationNotificationsProps {
   sessionId?: string;
 }
@@ -24,6 +35,8 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
   const [notifications, setNotifications] = useState<EscalationNotification[]>([]);
   const [showNotifications, setShowNotifications] = useState(false);
   const [dismissedNotifications, setDismissedNotifications] = useState<Set<string>>(new Set());
+  const [replyNotifications, setReplyNotifications] = useState<ReplyNotification[]>([]);
+  const [openThread, setOpenThread] = useState<ReplyNotification | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -97,6 +110,69 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
     };
   }, [user, sessionId, dismissedNotifications]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const checkForUnreadReplies = async () => {
+      try {
+        // RLS limits replies to the customer's own escalations
+        const { data, error } = await supabase
+          .from('escalation_replies')
+          .select('escalation_id, escalated_queries (session_id, status, original_question)')
+          .eq('sender', 'agent')
+          .is('read_at', null);
+
+        if (error) throw error;
+
+        const byEscalation = new Map<string, ReplyNotification>();
+        for (const reply of data || []) {
+          const escalation = reply.escalated_queries;
+          if (!escalation || (sessionId && escalation.session_id !== sessionId)) continue;
+          const existing = byEscalation.get(reply.escalation_id);
+          if (existing) {
+            existing.unread++;
+          } else {
+            byEscalation.set(reply.escalation_id, {
+              escalation_id: reply.escalation_id,
+              original_question: escalation.original_question,
+              status: escalation.status,
+              unread: 1,
+            });
+          }
+        }
+        setReplyNotifications(Array.from(byEscalation.values()));
+      } catch (error) {
+        console.error('Error checking escalation replies:', error);
+      }
+    };
+
+    checkForUnreadReplies();
+
+    const channel = supabase
+      .channel('escalation-reply-notifications')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'escalation_replies',
+          filter: 'sender=eq.agent',
+        },
+        () => {
+          checkForUnreadReplies();
+          toast({
+            title: "New reply from support",
+            description: "Our support team replied to one of your escalated queries.",
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, sessionId, openThread]);
+
   const dismissNotification = (notificationId: string) => {
     setDismissedNotifications(prev => new Set([...prev, notificationId]));
     setNotifications(prev => prev.filter(n => n.id !== notificationId));
@@ -108,7 +184,9 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
     setNotifications([]);
   };
 
-  if (notifications.length === 0) return null;
+  const totalCount = notifications.length + replyNotifications.length;
+
+  if (totalCount === 0 && !openThread) return null;
 
   return (
     <div className="relative">
@@ -119,9 +197,9 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
         className="relative"
       >
         <Bell className="h-4 w-4" />
-        {notifications.length > 0 && (
+        {totalCount > 0 && (
           <Badge className="absolute -top-2 -right-2 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs">
-            {notifications.length}
+            {totalCount}
           </Badge>
         )}
       </Button>
@@ -130,7 +208,7 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
         <Card className="absolute top-10 right-0 w-80 z-50 shadow-lg">
           <CardContent className="p-4">
             <div className="flex items-center justify-between mb-3">
-              <h3 className="font-semibold text-sm">Resolved Queries</h3>
+              <h3 className="font-semibold text-sm">Escalated Queries</h3>
               <div className="flex items-center gap-2">
                 {notifications.length > 1 && (
                   <Button
@@ -154,6 +232,35 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
             </div>
             
             <div className="space-y-3 max-h-60 overflow-y-auto">
+              {replyNotifications.map((reply) => (
+                <div
+                  key={reply.escalation_id}
+                  className="p-3 bg-muted rounded-lg border"
+                >
+                  <div className="flex items-start gap-2">
+                    <MessageSquare className="h-4 w-4 text-primary mt-0.5" />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium">
+                        {reply.unread === 1 ? 'New reply from support' : `${reply.unread} new replies from support`}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        "{reply.original_question}"
+                      </p>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        onClick={() => {
+                          setOpenThread(reply);
+                          setShowNotifications(false);
+                        }}
+                        className="h-auto p-0 mt-1 text-xs"
+                      >
+                        View & reply
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
               {notifications.map((notification) => (
                 <div
                   key={notification.id}
@@ -173,6 +280,15 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
                           {notification.resolution_notes}
                         </p>
                       )}
+                      {notification.resolved_at && (
+                        <div className="mt-3">
+                          <EscalationSurvey
+                            escalationId={notification.id}
+                            resolvedAt={notification.resolved_at}
+                            onSubmitted={(reopened) => reopened && dismissNotification(notification.id)}
+                          />
+                        </div>
+                      )}
                     </div>
                     <Button
                       variant="ghost"
@@ -189,6 +305,25 @@ export function EscalationNotifications({ sessionId }: EscalationNotificationsPr
           </CardContent>
         </Card>
       )}
+
+      <Dialog open={!!openThread} onOpenChange={(open) => !open && setOpenThread(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Conversation with Support</DialogTitle>
+          </DialogHeader>
+          {openThread && user && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">"{openThread.original_question}"</p>
+              <EscalationThread
+                escalationId={openThread.escalation_id}
+                viewer="customer"
+                authorId={user.id}
+                disabled={openThread.status === 'closed'}
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
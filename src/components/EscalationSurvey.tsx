@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Star, RotateCcw } from 'lucide-react';
+
+interface SubmittedSurvey {
+  rating: number;
+  reopened: boolean;
+}
+
+interface EscalationSurveyProps {
+  escalationId: string;
+  // The resolution being rated; a reopened and re-resolved query is rated again
+  resolvedAt: string;
+  onSubmitted?: (reopened: boolean) => void;
+}
+
+const RATING_LABELS = ['Very dissatisfied', 'Dissatisfied', 'Neutral', 'Satisfied', 'Very satisfied'];
+
+export function EscalationSurvey({ escalationId, resolvedAt, onSubmitted }: EscalationSurveyProps) {
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitted, setSubmitted] = useState<SubmittedSurvey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSurvey = async () => {
+      const { data, error } = await supabase
+        .from('escalation_surveys')
+        .select('rating, reopened')
+        .eq('escalation_id', escalationId)
+        .eq('resolved_at', resolvedAt)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading survey:', error);
+      }
+      setSubmitted(data);
+      setLoading(false);
+    };
+
+    loadSurvey();
+  }, [escalationId, resolvedAt]);
+
+  const submitSurvey = async (reopen: boolean) => {
+    if (!user || rating === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      // Reopening records the rating itself, so either both are saved or neither is
+      const { error } = reopen
+        ? await supabase.rpc('reopen_escalation', {
+            target_escalation_id: escalationId,
+            survey_rating: rating,
+            survey_comment: comment.trim() || undefined,
+          })
+        : await supabase
+            .from('escalation_surveys')
+            .insert({
+              escalation_id: escalationId,
+              user_id: user.id,
+              rating,
+              comment: comment.trim() || null,
+            });
+
+      if (error) throw error;
+
+      setSubmitted({ rating, reopened: reopen });
+      toast({
+        description: reopen
+          ? "Your query has been reopened. Our support team will get back to you."
+          : "Thanks for your feedback!",
+      });
+      onSubmitted?.(reopen);
+    } catch (error) {
+      console.error('Error submitting survey:', error);
+      toast({
+        description: "Failed to submit feedback. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) return null;
+
+  if (submitted) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {submitted.reopened
+          ? 'You reopened this query.'
+          : `You rated this resolution ${submitted.rating}/5. Thank you!`}
+      </p>
+    );
+  }
+
+  const shownRating = hoverRating || rating;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium">How satisfied are you with the resolution?</p>
+      <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setRating(value)}
+            onMouseEnter={() => setHoverRating(value)}
+            aria-label={RATING_LABELS[value - 1]}
+          >
+            <Star
+              className={`h-5 w-5 ${value <= shownRating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+            />
+          </button>
+        ))}
+        {shownRating > 0 && (
+          <span className="text-xs text-muted-foreground ml-2">{RATING_LABELS[shownRating - 1]}</span>
+        )}
+      </div>
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Tell us more (optional)"
+        rows={2}
+        className="text-sm"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => submitSurvey(false)} disabled={rating === 0 || isSubmitting}>
+          Submit
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => submitSurvey(true)}
+          disabled={rating === 0 || isSubmitting}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Not solved, reopen
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Send, Headset, User } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface EscalationReply {
+  id: string;
+  escalation_id: string;
+  sender: 'customer' | 'agent';
+  user_id: string | null;
+  admin_id: string | null;
+  content: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+interface EscalationThreadProps {
+  escalationId: string;
+  // Which side of the conversation the current user is on
+  viewer: 'customer' | 'agent';
+  // users.id for customers, admin_users.id for agents
+  authorId: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function EscalationThread({ escalationId, viewer, authorId, disabled = false, className = '' }: EscalationThreadProps) {
+  const [replies, setReplies] = useState<EscalationReply[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadReplies = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('escalation_replies')
+          .select('*')
+          .eq('escalation_id', escalationId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setReplies((data || []) as EscalationReply[]);
+        await supabase.rpc('mark_escalation_replies_read', { target_escalation_id: escalationId });
+      } catch (error) {
+        console.error('Error loading escalation replies:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReplies();
+
+    const channel = supabase
+      .channel(`escalation-replies-${escalationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'escalation_replies',
+          filter: `escalation_id=eq.${escalationId}`,
+        },
+        (payload) => {
+          const reply = payload.new as EscalationReply;
+          setReplies(prev => prev.some(item => item.id === reply.id) ? prev : [...prev, reply]);
+          if (reply.sender !== viewer) {
+            supabase.rpc('mark_escalation_replies_read', { target_escalation_id: escalationId });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [escalationId, viewer]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies]);
+
+  const sendReply = async () => {
+    const content = draft.trim();
+    if (!content) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('escalation_replies')
+        .insert({
+          escalation_id: escalationId,
+          sender: viewer,
+          user_id: viewer === 'customer' ? authorId : null,
+          admin_id: viewer === 'agent' ? authorId : null,
+          content,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setReplies(prev => prev.some(item => item.id === data.id) ? prev : [...prev, data as EscalationReply]);
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast({
+        description: "Failed to send reply. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="max-h-72 overflow-y-auto space-y-3 pr-1">
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+          </div>
+        ) : replies.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No replies yet</p>
+        ) : (
+          replies.map((reply) => {
+            const isOwn = reply.sender === viewer;
+            return (
+              <div key={reply.id} className={`flex gap-2 ${isOwn ? 'flex-row-reverse' : ''}`}>
+                <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                  {reply.sender === 'agent' ? <Headset className="h-3 w-3" /> : <User className="h-3 w-3" />}
+                </div>
+                <div className={`max-w-[80%] rounded-lg p-2 ${isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                  <p className="text-sm whitespace-pre-wrap">{reply.content}</p>
+                  <p className="text-xs opacity-70 mt-1">
+                    {reply.sender === 'agent' ? 'Support team' : 'Customer'} • {format(new Date(reply.created_at), 'MMM dd, HH:mm')}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {!disabled && (
+        <div className="flex gap-2 items-end">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                sendReply();
+              }
+            }}
+            rows={2}
+            placeholder={viewer === 'agent' ? 'Reply to the customer...' : 'Reply to our support team...'}
+          />
+          <Button onClick={sendReply} disabled={sending || !draft.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ESCALATION_CATEGORY_LABELS, type EscalationCategory } from '@/lib/escalations';
+import {
+  ArrowRightLeft,
+  CircleDot,
+  Flag,
+  MessageSquare,
+  RotateCcw,
+  StickyNote,
+  Star,
+  Tag,
+  UserCheck,
+  FileText,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+
+interface EscalationEvent {
+  id: string;
+  event_type: string;
+  actor_type: string;
+  actor_id: string | null;
+  from_value: string | null;
+  to_value: string | null;
+  details: Json;
+  created_at: string;
+}
+
+interface EscalationTimelineProps {
+  escalationId: string;
+  customerName: string;
+  // Active admins, used to name actors and assignees
+  admins: { id: string; full_name: string }[];
+  // admin_users.id of the viewer, who can add internal notes
+  authorId: string;
+}
+
+const EVENT_ICONS: Record<string, typeof CircleDot> = {
+  created: CircleDot,
+  status_changed: ArrowRightLeft,
+  reopened: RotateCcw,
+  assigned: UserCheck,
+  unassigned: UserCheck,
+  priority_changed: Flag,
+  category_changed: Tag,
+  resolution_notes: FileText,
+  customer_reply: MessageSquare,
+  agent_reply: MessageSquare,
+  survey_submitted: Star,
+  note: StickyNote,
+};
+
+const detailText = (details: Json, key: string): string | null => {
+  if (details && typeof details === 'object' && !Array.isArray(details)) {
+    const value = details[key];
+    return typeof value === 'string' ? value : null;
+  }
+  return null;
+};
+
+const formatStatus = (status: string | null) => (status || 'none').replace('_', ' ');
+
+export function EscalationTimeline({ escalationId, customerName, admins, authorId }: EscalationTimelineProps) {
+  const [events, setEvents] = useState<EscalationEvent[]>([]);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      const { data, error } = await supabase
+        .from('escalation_events')
+        .select('*')
+        .eq('escalation_id', escalationId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading escalation events:', error);
+        return;
+      }
+      setEvents(data || []);
+    };
+
+    loadEvents();
+
+    const channel = supabase
+      .channel(`escalation-events-${escalationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'escalation_events',
+          filter: `escalation_id=eq.${escalationId}`,
+        },
+        (payload) => {
+          const event = payload.new as EscalationEvent;
+          setEvents(prev => prev.some(item => item.id === event.id) ? prev : [...prev, event]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [escalationId]);
+
+  const adminName = (id: string | null) =>
+    admins.find(admin => admin.id === id)?.full_name || 'a former admin';
+
+  const actorName = (event: EscalationEvent) => {
+    switch (event.actor_type) {
+      case 'admin':
+        return adminName(event.actor_id);
+      case 'customer':
+        return customerName;
+      default:
+        return 'System';
+    }
+  };
+
+  const describeEvent = (event: EscalationEvent): { title: string; body?: string | null } => {
+    switch (event.event_type) {
+      case 'created':
+        return { title: 'Escalation opened', body: detailText(event.details, 'reason') };
+      case 'status_changed':
+        return { title: `Status changed from ${formatStatus(event.from_value)} to ${formatStatus(event.to_value)}` };
+      case 'reopened':
+        return { title: 'Reopened after resolution' };
+      case 'assigned':
+        return { title: `Assigned to ${adminName(event.to_value)}` };
+      case 'unassigned':
+        return { title: `Unassigned from ${adminName(event.from_value)}` };
+      case 'priority_changed':
+        return { title: `Priority changed from ${event.from_value} to ${event.to_value}` };
+      case 'category_changed':
+        return {
+          title: `Category changed from ${ESCALATION_CATEGORY_LABELS[event.from_value as EscalationCategory] || event.from_value} to ${ESCALATION_CATEGORY_LABELS[event.to_value as EscalationCategory] || event.to_value}`,
+        };
+      case 'resolution_notes':
+        return { title: 'Resolution notes updated', body: event.to_value };
+      case 'customer_reply':
+        return { title: 'Customer replied', body: detailText(event.details, 'excerpt') };
+      case 'agent_reply':
+        return { title: 'Support replied', body: detailText(event.details, 'excerpt') };
+      case 'survey_submitted':
+        return { title: `Rated the resolution ${event.to_value}/5`, body: detailText(event.details, 'comment') };
+      case 'note':
+        return { title: 'Internal note', body: detailText(event.details, 'note') };
+      default:
+        return { title: event.event_type.replace('_', ' ') };
+    }
+  };
+
+  const addNote = async () => {
+    const text = note.trim();
+    if (!text) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('escalation_events')
+        .insert({
+          escalation_id: escalationId,
+          event_type: 'note',
+          actor_type: 'admin',
+          actor_id: authorId,
+          details: { note: text },
+        });
+
+      if (error) throw error;
+      setNote('');
+    } catch (error) {
+      console.error('Error adding note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add note",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l border-border ml-2 space-y-4">
+        {events.map((event) => {
+          const Icon = EVENT_ICONS[event.event_type] || CircleDot;
+          const { title, body } = describeEvent(event);
+          return (
+            <li key={event.id} className="ml-6">
+              <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+                <Icon className="h-3 w-3" />
+              </span>
+              <p className="text-sm font-medium">{title}</p>
+              {body && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{body}</p>}
+              <p className="text-xs text-muted-foreground">
+                {actorName(event)} • {format(new Date(event.created_at), 'MMM dd, yyyy HH:mm')}
+              </p>
+            </li>
+          );
+        })}
+        {events.length === 0 && (
+          <li className="ml-6 text-sm text-muted-foreground">No history recorded yet</li>
+        )}
+      </ol>
+
+      <div className="flex gap-2">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addNote();
+            }
+          }}
+          placeholder="Add an internal note..."
+        />
+        <Button variant="outline" onClick={addNote} disabled={saving || !note.trim()}>
+          Add Note
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ import { Loader2 } from 'lucide-react';
 interface TypingIndicatorProps {
   typingUsers: Array<{ user_id: string; is_typing: boolean }>;
   className?: string;
+  label?: string;
 }
 
-export function TypingIndicator({ typingUsers, className = '' }: TypingIndicatorProps) {
+export function TypingIndicator({ typingUsers, className = '', label = 'Someone is typing...' }: TypingIndicatorProps) {
   const [showIndicator, setShowIndicator] = useState(false);
 
   useEffect(() => {
@@ -19,7 +20,7 @@ export function TypingIndicator({ typingUsers, className = '' }: TypingIndicator
   return (
     <div className={`flex items-center gap-2 text-muted-foreground text-sm ${className}`}>
       <Loader2 className="h-3 w-3 animate-spin" />
-      <span>Someone is typing...</span>
+      <span>{label}</span>
       <div className="flex gap-1">
         <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
         <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
@@ -1,21 +1,36 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { AdminPermission } from '@/lib/permissions';
 
 interface AdminContextType {
   user: User | null;
   session: Session | null;
   adminData: any | null;
+  permissions: AdminPermission[];
+  isSuperAdmin: boolean;
+  hasPermission: (permission: AdminPermission) => boolean;
   loading: boolean;
   signOut: () => Promise<void>;
 }
 
 const AdminContext = createContext<AdminContextType | undefined>(undefined);
 
+// Everything the signed-in admin's role grants; super admins get every permission
+const fetchPermissions = async (): Promise<AdminPermission[]> => {
+  const { data, error } = await supabase.rpc('get_admin_permissions');
+  if (error) {
+    console.error('Error fetching admin permissions:', error);
+    return [];
+  }
+  return data || [];
+};
+
 export const AdminProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [adminData, setAdminData] = useState<any | null>(null);
+  const [permissions, setPermissions] = useState<AdminPermission[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -37,14 +52,17 @@ export const AdminProvider = ({ children }: { children: React.ReactNode }) => {
                 .single();
               
               setAdminData(adminUser);
+              setPermissions(adminUser ? await fetchPermissions() : []);
             } catch (error) {
               console.error('Error fetching admin data:', error);
               setAdminData(null);
+              setPermissions([]);
             }
             setLoading(false);
           }, 0);
         } else {
           setAdminData(null);
+          setPermissions([]);
           setLoading(false);
         }
       }
@@ -65,9 +83,11 @@ export const AdminProvider = ({ children }: { children: React.ReactNode }) => {
             .single();
           
           setAdminData(adminUser);
+          setPermissions(adminUser ? await fetchPermissions() : []);
         } catch (error) {
           console.error('Error fetching admin data:', error);
           setAdminData(null);
+          setPermissions([]);
         }
       }
       
@@ -98,8 +118,11 @@ export const AdminProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const isSuperAdmin = adminData?.role === 'super_admin';
+  const hasPermission = (permission: AdminPermission) => isSuperAdmin || permissions.includes(permission);
+
   return (
-    <AdminContext.Provider value={{ user, session, adminData, loading, signOut }}>
+    <AdminContext.Provider value={{ user, session, adminData, permissions, isSuperAdmin, hasPermission, loading, signOut }}>
       {children}
     </AdminContext.Provider>
   );
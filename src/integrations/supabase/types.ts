@@ -47,6 +47,81 @@ export type Database = {
         }
         Relationships: []
       }
+      admin_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          full_name: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: string
+          token_hash: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          full_name: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role: string
+          token_hash: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          full_name?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "admin_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_role_permissions: {
+        Row: {
+          created_at: string | null
+          permission: Database["public"]["Enums"]["admin_permission"]
+          role: string
+        }
+        Insert: {
+          created_at?: string | null
+          permission: Database["public"]["Enums"]["admin_permission"]
+          role: string
+        }
+        Update: {
+          created_at?: string | null
+          permission?: Database["public"]["Enums"]["admin_permission"]
+          role?: string
+        }
+        Relationships: []
+      }
       admin_users: {
         Row: {
           created_at: string | null
@@ -54,7 +129,7 @@ export type Database = {
           full_name: string
           id: string
           is_active: boolean | null
-          role: string | null
+          role: string
         }
         Insert: {
           created_at?: string | null
@@ -62,7 +137,7 @@ export type Database = {
           full_name: string
           id: string
           is_active?: boolean | null
-          role?: string | null
+          role?: string
         }
         Update: {
           created_at?: string | null
@@ -70,39 +145,99 @@ export type Database = {
           full_name?: string
           id?: string
           is_active?: boolean | null
-          role?: string | null
+          role?: string
         }
         Relationships: []
       }
+      auto_escalation_settings: {
+        Row: {
+          frustration_limit: number
+          id: boolean
+          is_enabled: boolean
+          low_confidence_streak: number
+          low_confidence_threshold: number
+          rephrase_limit: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          frustration_limit?: number
+          id?: boolean
+          is_enabled?: boolean
+          low_confidence_streak?: number
+          low_confidence_threshold?: number
+          rephrase_limit?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          frustration_limit?: number
+          id?: boolean
+          is_enabled?: boolean
+          low_confidence_streak?: number
+          low_confidence_threshold?: number
+          rephrase_limit?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_escalation_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_sessions: {
         Row: {
+          agent_id: string | null
+          agent_joined_at: string | null
           created_at: string | null
           id: string
           is_active: boolean | null
           session_summary: string | null
+          summarized_until: string | null
+          summarized_until_id: string | null
           title: string | null
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          agent_id?: string | null
+          agent_joined_at?: string | null
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           session_summary?: string | null
+          summarized_until?: string | null
+          summarized_until_id?: string | null
           title?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          agent_id?: string | null
+          agent_joined_at?: string | null
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           session_summary?: string | null
+          summarized_until?: string | null
+          summarized_until_id?: string | null
           title?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_sessions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_sessions_user_id_fkey"
             columns: ["user_id"]
@@ -112,44 +247,165 @@ export type Database = {
           },
         ]
       }
+      data_deletion_requests: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          email: string | null
+          id: string
+          reason: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          summary: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          summary?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          summary?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_deletion_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_request_events: {
+        Row: {
+          actor_id: string | null
+          actor_type: string
+          created_at: string
+          details: Json
+          event_type: string
+          id: string
+          request_id: string | null
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_type: string
+          created_at?: string
+          details?: Json
+          event_type: string
+          id?: string
+          request_id?: string | null
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_type?: string
+          created_at?: string
+          details?: Json
+          event_type?: string
+          id?: string
+          request_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "data_deletion_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       escalated_queries: {
         Row: {
+          assigned_at: string | null
           assigned_to: string | null
+          category: Database["public"]["Enums"]["escalation_category"]
           created_at: string | null
           customer_feedback: string | null
           escalation_reason: string | null
           id: string
           original_question: string
+          priority: Database["public"]["Enums"]["escalation_priority"]
+          reopen_count: number
+          reopened_at: string | null
           resolution_notes: string | null
           resolved_at: string | null
+          resolved_by: string | null
           session_id: string | null
+          sla_due_at: string | null
+          sla_warning_sent_at: string | null
           status: Database["public"]["Enums"]["escalation_status"] | null
+          triage_signals: Json | null
           user_id: string | null
         }
         Insert: {
+          assigned_at?: string | null
           assigned_to?: string | null
+          category?: Database["public"]["Enums"]["escalation_category"]
           created_at?: string | null
           customer_feedback?: string | null
           escalation_reason?: string | null
           id?: string
           original_question: string
+          priority?: Database["public"]["Enums"]["escalation_priority"]
+          reopen_count?: number
+          reopened_at?: string | null
           resolution_notes?: string | null
           resolved_at?: string | null
+          resolved_by?: string | null
           session_id?: string | null
+          sla_due_at?: string | null
+          sla_warning_sent_at?: string | null
           status?: Database["public"]["Enums"]["escalation_status"] | null
+          triage_signals?: Json | null
           user_id?: string | null
         }
         Update: {
+          assigned_at?: string | null
           assigned_to?: string | null
+          category?: Database["public"]["Enums"]["escalation_category"]
           created_at?: string | null
           customer_feedback?: string | null
           escalation_reason?: string | null
           id?: string
           original_question?: string
+          priority?: Database["public"]["Enums"]["escalation_priority"]
+          reopen_count?: number
+          reopened_at?: string | null
           resolution_notes?: string | null
           resolved_at?: string | null
+          resolved_by?: string | null
           session_id?: string | null
+          sla_due_at?: string | null
+          sla_warning_sent_at?: string | null
           status?: Database["public"]["Enums"]["escalation_status"] | null
+          triage_signals?: Json | null
           user_id?: string | null
         }
         Relationships: [
@@ -160,6 +416,13 @@ export type Database = {
             referencedRelation: "admin_users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "escalated_queries_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "escalated_queries_session_id_fkey"
             columns: ["session_id"]
@@ -176,6 +439,187 @@ export type Database = {
           },
         ]
       }
+      escalation_events: {
+        Row: {
+          actor_id: string | null
+          actor_type: string
+          created_at: string
+          details: Json
+          escalation_id: string
+          event_type: string
+          from_value: string | null
+          id: string
+          to_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_type: string
+          created_at?: string
+          details?: Json
+          escalation_id: string
+          event_type: string
+          from_value?: string | null
+          id?: string
+          to_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_type?: string
+          created_at?: string
+          details?: Json
+          escalation_id?: string
+          event_type?: string
+          from_value?: string | null
+          id?: string
+          to_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_events_escalation_id_fkey"
+            columns: ["escalation_id"]
+            isOneToOne: false
+            referencedRelation: "escalated_queries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_replies: {
+        Row: {
+          admin_id: string | null
+          content: string
+          created_at: string | null
+          escalation_id: string
+          id: string
+          read_at: string | null
+          sender: string
+          user_id: string | null
+        }
+        Insert: {
+          admin_id?: string | null
+          content: string
+          created_at?: string | null
+          escalation_id: string
+          id?: string
+          read_at?: string | null
+          sender: string
+          user_id?: string | null
+        }
+        Update: {
+          admin_id?: string | null
+          content?: string
+          created_at?: string | null
+          escalation_id?: string
+          id?: string
+          read_at?: string | null
+          sender?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_replies_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_replies_escalation_id_fkey"
+            columns: ["escalation_id"]
+            isOneToOne: false
+            referencedRelation: "escalated_queries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_replies_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_sla_policies: {
+        Row: {
+          priority: Database["public"]["Enums"]["escalation_priority"]
+          resolution_minutes: number
+          updated_at: string | null
+          warning_minutes: number
+        }
+        Insert: {
+          priority: Database["public"]["Enums"]["escalation_priority"]
+          resolution_minutes: number
+          updated_at?: string | null
+          warning_minutes: number
+        }
+        Update: {
+          priority?: Database["public"]["Enums"]["escalation_priority"]
+          resolution_minutes?: number
+          updated_at?: string | null
+          warning_minutes?: number
+        }
+        Relationships: []
+      }
+      escalation_surveys: {
+        Row: {
+          admin_id: string | null
+          category: Database["public"]["Enums"]["escalation_category"] | null
+          comment: string | null
+          created_at: string | null
+          escalation_id: string
+          id: string
+          rating: number
+          reopened: boolean
+          resolved_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_id?: string | null
+          category?: Database["public"]["Enums"]["escalation_category"] | null
+          comment?: string | null
+          created_at?: string | null
+          escalation_id: string
+          id?: string
+          rating: number
+          reopened?: boolean
+          resolved_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_id?: string | null
+          category?: Database["public"]["Enums"]["escalation_category"] | null
+          comment?: string | null
+          created_at?: string | null
+          escalation_id?: string
+          id?: string
+          rating?: number
+          reopened?: boolean
+          resolved_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_surveys_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_surveys_escalation_id_fkey"
+            columns: ["escalation_id"]
+            isOneToOne: false
+            referencedRelation: "escalated_queries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_surveys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_uploads: {
         Row: {
           created_at: string
@@ -233,8 +677,62 @@ export type Database = {
           },
         ]
       }
+      intent_patterns: {
+        Row: {
+          action: string
+          confidence_threshold: number
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          intent: string
+          is_active: boolean | null
+          match_type: string
+          pattern: string
+          sort_order: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          action?: string
+          confidence_threshold?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          intent: string
+          is_active?: boolean | null
+          match_type?: string
+          pattern: string
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          action?: string
+          confidence_threshold?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          intent?: string
+          is_active?: boolean | null
+          match_type?: string
+          pattern?: string
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "intent_patterns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          author_id: string | null
           content: string
           created_at: string | null
           file_attachments: Json | null
@@ -245,6 +743,7 @@ export type Database = {
           session_id: string | null
         }
         Insert: {
+          author_id?: string | null
           content: string
           created_at?: string | null
           file_attachments?: Json | null
@@ -255,6 +754,7 @@ export type Database = {
           session_id?: string | null
         }
         Update: {
+          author_id?: string | null
           content?: string
           created_at?: string | null
           file_attachments?: Json | null
@@ -265,6 +765,13 @@ export type Database = {
           session_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_qa_item_id_fkey"
             columns: ["qa_item_id"]
@@ -436,6 +943,41 @@ export type Database = {
           },
         ]
       }
+      qa_item_embeddings: {
+        Row: {
+          answer_embedding: string
+          content_hash: string
+          model: string
+          qa_item_id: string
+          question_embedding: string
+          updated_at: string | null
+        }
+        Insert: {
+          answer_embedding: string
+          content_hash: string
+          model: string
+          qa_item_id: string
+          question_embedding: string
+          updated_at?: string | null
+        }
+        Update: {
+          answer_embedding?: string
+          content_hash?: string
+          model?: string
+          qa_item_id?: string
+          question_embedding?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qa_item_embeddings_qa_item_id_fkey"
+            columns: ["qa_item_id"]
+            isOneToOne: true
+            referencedRelation: "qa_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       qa_items: {
         Row: {
           answer: string
@@ -500,6 +1042,132 @@ export type Database = {
           },
         ]
       }
+      rate_limit_buckets: {
+        Row: {
+          key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rate_limit_settings: {
+        Row: {
+          capacity: number
+          is_enabled: boolean
+          refill_per_minute: number
+          scope: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          capacity: number
+          is_enabled?: boolean
+          refill_per_minute: number
+          scope: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          capacity?: number
+          is_enabled?: boolean
+          refill_per_minute?: number
+          scope?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_limit_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_policies: {
+        Row: {
+          action: string
+          is_enabled: boolean
+          retain_days: number
+          target_table: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          action: string
+          is_enabled?: boolean
+          retain_days: number
+          target_table: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          action?: string
+          is_enabled?: boolean
+          retain_days?: number
+          target_table?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_policies_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_runs: {
+        Row: {
+          error: string | null
+          finished_at: string
+          id: string
+          results: Json
+          started_at: string
+          storage_objects_removed: number
+          triggered_by: string | null
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string
+          id?: string
+          results?: Json
+          started_at: string
+          storage_objects_removed?: number
+          triggered_by?: string | null
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string
+          id?: string
+          results?: Json
+          started_at?: string
+          storage_objects_removed?: number
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_runs_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       typing_status: {
         Row: {
           id: string
@@ -662,6 +1330,42 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_system_message: {
+        Args: {
+          target_session_id: string
+          message_content: string
+          message_metadata: Json
+          message_author_id?: string
+        }
+        Returns: undefined
+      }
+      apply_retention_policies: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      check_escalation_slas: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      confidence_calibration: {
+        Args: { since?: string }
+        Returns: {
+          response_source: string
+          confidence_band: number
+          answers: number
+          rated: number
+          helpful: number
+          avg_confidence: number
+        }[]
+      }
+      consume_rate_limit: {
+        Args: { bucket_scope: string; bucket_subject: string }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
       create_admin_notification: {
         Args: {
           notification_type: string
@@ -671,16 +1375,120 @@ export type Database = {
         }
         Returns: string
       }
+      erase_customer_data: {
+        Args: { target_user_id: string }
+        Returns: Json
+      }
+      get_admin_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["admin_permission"][]
+      }
+      has_admin_permission: {
+        Args: {
+          user_id: string
+          required_permission: Database["public"]["Enums"]["admin_permission"]
+        }
+        Returns: boolean
+      }
       is_admin_user: {
         Args: { user_id: string }
         Returns: boolean
       }
+      is_super_admin: {
+        Args: { user_id: string }
+        Returns: boolean
+      }
+      is_user_storage_path: {
+        Args: { path: string; owner_id: string }
+        Returns: boolean
+      }
+      log_escalation_event: {
+        Args: {
+          target_escalation_id: string
+          escalation_user_id: string
+          new_event_type: string
+          old_value?: string
+          new_value?: string
+          event_details?: Json
+        }
+        Returns: undefined
+      }
+      mark_escalation_replies_read: {
+        Args: { target_escalation_id: string }
+        Returns: undefined
+      }
+      match_qa_items: {
+        Args: {
+          query_embedding: string
+          embedding_model: string
+          match_count?: number
+        }
+        Returns: {
+          id: string
+          question: string
+          answer: string
+          keywords: string[]
+          category_id: string
+          view_count: number
+          similarity: number
+        }[]
+      }
+      preview_retention_policies: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          target_table: string
+          action: string
+          is_enabled: boolean
+          cutoff: string
+          affected_rows: number
+          storage_objects: number
+        }[]
+      }
+      prune_rate_limit_buckets: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      qa_item_feedback: {
+        Args: { item_ids?: string[]; since?: string }
+        Returns: {
+          qa_item_id: string
+          answers: number
+          helpful_count: number
+          unhelpful_count: number
+          avg_confidence: number
+        }[]
+      }
+      reopen_escalation: {
+        Args: {
+          survey_comment?: string
+          survey_rating?: number
+          target_escalation_id: string
+        }
+        Returns: undefined
+      }
       update_session_status: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
     }
     Enums: {
+      admin_permission:
+        | "faq.manage"
+        | "orders.manage"
+        | "escalations.manage"
+        | "chats.manage"
+        | "users.manage"
+        | "settings.manage"
+        | "analytics.view"
+      escalation_category:
+        | "billing"
+        | "delivery"
+        | "hardware_fault"
+        | "returns"
+        | "account"
+        | "product_question"
+        | "other"
+      escalation_priority: "low" | "medium" | "high" | "urgent"
       escalation_status:
         | "pending"
         | "assigned"
@@ -693,7 +1501,7 @@ export type Database = {
         | "question_asked"
         | "file_uploaded"
         | "escalated"
-      message_type: "user" | "assistant" | "system"
+      message_type: "user" | "assistant" | "system" | "agent"
       order_status:
         | "pending"
         | "confirmed"
@@ -827,6 +1635,25 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      admin_permission: [
+        "faq.manage",
+        "orders.manage",
+        "escalations.manage",
+        "chats.manage",
+        "users.manage",
+        "settings.manage",
+        "analytics.view",
+      ],
+      escalation_category: [
+        "billing",
+        "delivery",
+        "hardware_fault",
+        "returns",
+        "account",
+        "product_question",
+        "other",
+      ],
+      escalation_priority: ["low", "medium", "high", "urgent"],
       escalation_status: [
         "pending",
         "assigned",
@@ -841,7 +1668,7 @@ export const Constants = {
         "file_uploaded",
         "escalated",
       ],
-      message_type: ["user", "assistant", "system"],
+      message_type: ["user", "assistant", "system", "agent"],
       order_status: [
         "pending",
         "confirmed",
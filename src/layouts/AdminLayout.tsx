@@ -4,6 +4,7 @@ import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { AdminNotifications } from '@/components/AdminNotifications';
+import { roleLabel, type AdminPermission } from '@/lib/permissions';
 import { 
   Menu, 
   Shield, 
@@ -15,30 +16,57 @@ import {
   LogOut,
   Home,
   ShoppingCart,
-  AlertTriangle
+  AlertTriangle,
+  Tags,
+  SlidersHorizontal,
+  Target,
+  ShieldCheck,
+  UserCog,
+  UserX,
+  Archive
 } from 'lucide-react';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof Home;
+  // Hidden from admins whose role lacks it; pages without one are open to every admin
+  permission?: AdminPermission;
+  superAdminOnly?: boolean;
+}
+
 const AdminLayout = ({ children }: AdminLayoutProps) => {
-  const { adminData, signOut } = useAdminAuth();
+  const { adminData, signOut, isSuperAdmin, hasPermission } = useAdminAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
 
-  const navigation = [
+  const navigationItems: NavigationItem[] = [
     { name: 'Dashboard', href: '/admin', icon: Home },
-    { name: 'FAQ Management', href: '/admin/faq', icon: HelpCircle },
-    { name: 'Categories', href: '/admin/categories', icon: Settings },
-    { name: 'Order Management', href: '/admin/orders', icon: ShoppingCart },
-    { name: 'Order Inquiries', href: '/admin/order-inquiries', icon: MessageSquare },
-    { name: 'Escalated Queries', href: '/admin/escalated', icon: AlertTriangle },
-    { name: 'User Management', href: '/admin/users', icon: Users },
-    { name: 'Chat Review', href: '/admin/chat-review', icon: MessageSquare },
-    { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
+    { name: 'FAQ Management', href: '/admin/faq', icon: HelpCircle, permission: 'faq.manage' },
+    { name: 'Categories', href: '/admin/categories', icon: Settings, permission: 'faq.manage' },
+    { name: 'Intent Patterns', href: '/admin/intents', icon: Tags, permission: 'faq.manage' },
+    { name: 'Order Management', href: '/admin/orders', icon: ShoppingCart, permission: 'orders.manage' },
+    { name: 'Order Inquiries', href: '/admin/order-inquiries', icon: MessageSquare, permission: 'orders.manage' },
+    { name: 'Escalated Queries', href: '/admin/escalated', icon: AlertTriangle, permission: 'escalations.manage' },
+    { name: 'User Management', href: '/admin/users', icon: Users, permission: 'users.manage' },
+    { name: 'Data Requests', href: '/admin/data-requests', icon: UserX, permission: 'users.manage' },
+    { name: 'Chat Review', href: '/admin/chat-review', icon: MessageSquare, permission: 'chats.manage' },
+    { name: 'Analytics', href: '/admin/analytics', icon: BarChart3, permission: 'analytics.view' },
+    { name: 'Confidence Report', href: '/admin/confidence', icon: Target, permission: 'analytics.view' },
+    { name: 'Assistant Settings', href: '/admin/settings', icon: SlidersHorizontal, permission: 'settings.manage' },
+    { name: 'Data Retention', href: '/admin/retention', icon: Archive, permission: 'settings.manage' },
+    { name: 'Admin Users', href: '/admin/admins', icon: UserCog, superAdminOnly: true },
+    { name: 'Roles & Permissions', href: '/admin/roles', icon: ShieldCheck, superAdminOnly: true },
   ];
 
+  const navigation = navigationItems.filter((item) =>
+    (!item.superAdminOnly || isSuperAdmin) && (!item.permission || hasPermission(item.permission))
+  );
+
   const isActive = (path: string) => {
     if (path === '/admin') {
       return location.pathname === '/admin';
@@ -79,7 +107,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
       <div className="border-t p-4">
         <div className="mb-4 text-sm">
           <p className="font-medium">{adminData?.full_name}</p>
-          <p className="text-muted-foreground">{adminData?.role}</p>
+          <p className="text-muted-foreground">{roleLabel(adminData?.role)}</p>
         </div>
         <div className="flex items-center gap-2 mb-4">
           <AdminNotifications />
@@ -0,0 +1,59 @@
+// Client for the admin-users edge function, which creates accounts with the service
+// role key: admin invitations, activating and deactivating admins, and new customers.
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { AdminRole } from '@/lib/permissions';
+
+export interface AdminInvite {
+  invitationId: string;
+  // Shown once to the inviting super admin; only a hash of its token is stored
+  inviteUrl: string;
+  expiresAt: string;
+}
+
+export interface InviteDetails {
+  email: string;
+  fullName: string;
+  role: AdminRole;
+}
+
+// Calls one action and rethrows the function's `{ error }` message on failure
+async function invokeAdminUsers<T>(action: string, payload: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('admin-users', {
+    body: { action, ...payload },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    throw error;
+  }
+  return data as T;
+}
+
+export function inviteAdmin(email: string, fullName: string, role: AdminRole): Promise<AdminInvite> {
+  return invokeAdminUsers('invite_admin', { email, fullName, role });
+}
+
+export async function revokeAdminInvite(invitationId: string): Promise<void> {
+  await invokeAdminUsers('revoke_invite', { invitationId });
+}
+
+export async function setAdminActive(adminId: string, isActive: boolean): Promise<void> {
+  await invokeAdminUsers('set_admin_active', { adminId, isActive });
+}
+
+export function getAdminInvite(token: string): Promise<InviteDetails> {
+  return invokeAdminUsers('get_invite', { token });
+}
+
+export function acceptAdminInvite(token: string, password: string): Promise<{ email: string }> {
+  return invokeAdminUsers('accept_invite', { token, password });
+}
+
+// The customer receives an email to set their own password
+export function createCustomer(email: string, fullName: string, phoneNumber: string): Promise<{ userId: string }> {
+  return invokeAdminUsers('create_customer', { email, fullName, phoneNumber });
+}
@@ -0,0 +1,41 @@
+// Live agent handoff. While a chat session has an agent, chat-assistant does not answer
+// and the agent talks to the customer directly.
+import { supabase } from '@/integrations/supabase/client';
+
+// Takes over the session unless another agent already has it
+export async function takeOverSession(sessionId: string, adminId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .update({ agent_id: adminId, agent_joined_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .or(`agent_id.is.null,agent_id.eq.${adminId}`)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Another agent is already handling this conversation');
+  }
+}
+
+// Hands the session back to the assistant
+export async function handBackSession(sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ agent_id: null, agent_joined_at: null })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+}
+
+export async function sendAgentMessage(sessionId: string, authorId: string, content: string): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      session_id: sessionId,
+      message_type: 'agent',
+      author_id: authorId,
+      content,
+    });
+
+  if (error) throw error;
+}
@@ -0,0 +1,117 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export interface ChatStreamResult {
+  response: string;
+  confidence: number;
+  suggestedQuestions: string[];
+  relatedItems: string[];
+  messageId?: string;
+}
+
+// Mirrors the `code` of chat-assistant's error payload
+export type ChatAssistantErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'session_not_found'
+  | 'session_forbidden'
+  | 'agent_active'
+  | 'rate_limited'
+  | 'internal_error';
+
+export class ChatAssistantError extends Error {
+  // Seconds until a rate-limited caller may send again
+  constructor(public code: ChatAssistantErrorCode, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'ChatAssistantError';
+  }
+}
+
+/**
+ * Converts a failed `functions.invoke` call into a ChatAssistantError by reading the
+ * `{ error, code }` payload from the response. Rejections by the functions gateway
+ * itself (e.g. an expired JWT) carry no code and are mapped from the HTTP status.
+ */
+export async function toChatAssistantError(error: unknown): Promise<ChatAssistantError> {
+  if (error instanceof ChatAssistantError) return error;
+
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const payload = await response.json().catch(() => null);
+    const code: ChatAssistantErrorCode = payload?.code && typeof payload.code === 'string'
+      ? payload.code
+      : response.status === 401 ? 'unauthorized' : response.status === 429 ? 'rate_limited' : 'internal_error';
+    const retryAfter = Number(payload?.retryAfter ?? response.headers.get('Retry-After')) || undefined;
+    return new ChatAssistantError(code, payload?.error || payload?.message || error.message, retryAfter);
+  }
+
+  return new ChatAssistantError('internal_error', error instanceof Error ? error.message : 'Chat request failed');
+}
+
+interface ChatStreamHandlers {
+  onStart?: (messageId: string) => void;
+  onToken?: (text: string) => void;
+}
+
+/**
+ * Reads the Server-Sent Events emitted by the chat-assistant edge function when it is
+ * invoked with `stream: true`, and resolves with the payload of the final `done` event.
+ */
+export async function readChatStream(response: Response, { onStart, onToken }: ChatStreamHandlers = {}): Promise<ChatStreamResult> {
+  if (!response.body) {
+    throw new Error('Chat stream has no body');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let result: ChatStreamResult | null = null;
+
+  const handleEvent = (block: string) => {
+    let event = 'message';
+    let data = '';
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data += line.slice(5).trim();
+      }
+    }
+
+    if (!data) return;
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case 'start':
+        onStart?.(payload.messageId);
+        break;
+      case 'token':
+        onToken?.(payload.text);
+        break;
+      case 'done':
+        result = payload;
+        break;
+      case 'error':
+        throw new ChatAssistantError(payload.code || 'internal_error', payload.error || 'Chat stream failed', payload.retryAfter);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(handleEvent);
+  }
+
+  if (buffer.trim()) {
+    handleEvent(buffer);
+  }
+
+  if (!result) {
+    throw new Error('Chat stream ended before completion');
+  }
+
+  return result;
+}
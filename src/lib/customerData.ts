@@ -0,0 +1,54 @@
+// Client for the customer-data edge function: data exports and account deletion
+// requests from the profile page, and their review in the admin panel.
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type DataDeletionRequest = Tables<'data_deletion_requests'>;
+export type DataRequestEvent = Tables<'data_request_events'>;
+
+export type DeletionDecision = 'approve' | 'reject';
+
+// Calls one action and rethrows the function's `{ error }` message on failure
+async function invokeCustomerData<T>(action: string, payload: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('customer-data', {
+    body: { action, ...payload },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    throw error;
+  }
+  return data as T;
+}
+
+// The export comes back as a ZIP, which supabase-js hands over as a Blob
+export async function downloadMyData(): Promise<void> {
+  const archive = await invokeCustomerData<Blob>('export');
+  const url = URL.createObjectURL(archive);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `my-data-${new Date().toISOString().slice(0, 10)}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function requestAccountDeletion(reason: string): Promise<DataDeletionRequest> {
+  return invokeCustomerData('request_deletion', { reason });
+}
+
+export function cancelAccountDeletion(): Promise<DataDeletionRequest> {
+  return invokeCustomerData('cancel_deletion');
+}
+
+// Approving erases the account straight away; approving a request whose deletion failed retries it
+export function reviewDeletionRequest(
+  requestId: string,
+  decision: DeletionDecision,
+  notes: string
+): Promise<DataDeletionRequest> {
+  return invokeCustomerData('review_deletion', { requestId, decision, notes });
+}
@@ -0,0 +1,21 @@
+// Client for the data-retention edge function, which applies the retention policies
+// and removes expired files from storage. It also runs nightly from pg_cron.
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RetentionRun = Tables<'retention_runs'>;
+
+// Applies every enabled policy now and returns the recorded run
+export async function runRetentionNow(): Promise<RetentionRun> {
+  const { data, error } = await supabase.functions.invoke('data-retention', { body: {} });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    throw error;
+  }
+  return data as RetentionRun;
+}
@@ -0,0 +1,87 @@
+// Assignment, triage and SLA helpers for escalated queries. New escalations are given a
+// category and priority by a database trigger, deadlines are set from
+// `escalation_sla_policies` and a scheduled job warns admins before they pass.
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type EscalationStatus = Database['public']['Enums']['escalation_status'];
+export type EscalationPriority = Database['public']['Enums']['escalation_priority'];
+export type EscalationCategory = Database['public']['Enums']['escalation_category'];
+
+export const OPEN_ESCALATION_STATUSES: EscalationStatus[] = ['pending', 'assigned', 'in_progress'];
+
+// Most urgent first; the index is used to sort by priority
+export const ESCALATION_PRIORITIES: EscalationPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+export const ESCALATION_CATEGORY_LABELS: Record<EscalationCategory, string> = {
+  billing: 'Billing',
+  delivery: 'Delivery',
+  hardware_fault: 'Hardware fault',
+  returns: 'Returns',
+  account: 'Account',
+  product_question: 'Product question',
+  other: 'Other',
+};
+
+export function comparePriority(a: EscalationPriority, b: EscalationPriority): number {
+  return ESCALATION_PRIORITIES.indexOf(a) - ESCALATION_PRIORITIES.indexOf(b);
+}
+
+export function isEscalationOpen(status: string): boolean {
+  return (OPEN_ESCALATION_STATUSES as string[]).includes(status);
+}
+
+export function isSlaBreached(escalation: { status: string; sla_due_at: string | null }, now = new Date()): boolean {
+  return isEscalationOpen(escalation.status) && !!escalation.sla_due_at && new Date(escalation.sla_due_at) < now;
+}
+
+// Claims an unassigned escalation for the admin unless someone else got there first
+export async function claimEscalation(escalationId: string, adminId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('escalated_queries')
+    .update({ assigned_to: adminId, status: 'assigned' })
+    .eq('id', escalationId)
+    .is('assigned_to', null)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('This query has already been claimed');
+  }
+}
+
+// Assigns the escalation to another admin, or back to the unassigned pool
+export async function assignEscalation(escalationId: string, currentStatus: string, adminId: string | null): Promise<void> {
+  const update: Database['public']['Tables']['escalated_queries']['Update'] = { assigned_to: adminId };
+  if (adminId && currentStatus === 'pending') {
+    update.status = 'assigned';
+  } else if (!adminId && currentStatus === 'assigned') {
+    update.status = 'pending';
+  }
+
+  const { error } = await supabase
+    .from('escalated_queries')
+    .update(update)
+    .eq('id', escalationId);
+
+  if (error) throw error;
+}
+
+export async function setEscalationPriority(escalationId: string, priority: EscalationPriority): Promise<void> {
+  const { error } = await supabase
+    .from('escalated_queries')
+    .update({ priority })
+    .eq('id', escalationId);
+
+  if (error) throw error;
+}
+
+export async function setEscalationCategory(escalationId: string, category: EscalationCategory): Promise<void> {
+  const { error } = await supabase
+    .from('escalated_queries')
+    .update({ category })
+    .eq('id', escalationId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,60 @@
+// Client copy of the chat-assistant intent matcher
+// (supabase/functions/chat-assistant/intents.ts), used to test patterns in the admin editor.
+
+export const DEFAULT_INTENT = 'general_inquiry';
+
+export type IntentMatchType = 'regex' | 'keyword';
+
+// What chat-assistant does once the intent is detected
+export type IntentAction = 'faq' | 'order_lookup' | 'order_inquiry' | 'escalate';
+
+export const INTENT_ACTION_LABELS: Record<IntentAction, string> = {
+  faq: 'Answer from FAQ',
+  order_lookup: 'Look up order status',
+  order_inquiry: 'Open order inquiry',
+  escalate: 'Escalate to human',
+};
+
+export interface IntentPatternRule {
+  intent: string;
+  pattern: string;
+  match_type: IntentMatchType;
+  confidence_threshold: number;
+}
+
+// Returns an error message when a regex pattern cannot be compiled
+export function validateIntentPattern(pattern: string, matchType: IntentMatchType): string | null {
+  if (!pattern.trim()) return 'Pattern is required';
+  if (matchType === 'keyword') return null;
+
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+export function matchesIntentPattern(query: string, pattern: IntentPatternRule): boolean {
+  if (pattern.match_type === 'keyword') {
+    const keywords = pattern.pattern
+      .split(',')
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(Boolean);
+    if (keywords.length === 0) return false;
+
+    const text = query.toLowerCase();
+    const found = keywords.filter(keyword => text.includes(keyword)).length;
+    return found / keywords.length >= Number(pattern.confidence_threshold);
+  }
+
+  try {
+    return new RegExp(pattern.pattern, 'i').test(query);
+  } catch {
+    return false;
+  }
+}
+
+export function detectIntent<T extends IntentPatternRule>(query: string, patterns: T[]): T | undefined {
+  return patterns.find(pattern => matchesIntentPattern(query, pattern));
+}
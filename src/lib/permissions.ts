@@ -0,0 +1,41 @@
+// Admin roles and the permissions they grant. What each role may do is stored in
+// `admin_role_permissions` and enforced by RLS through `has_admin_permission`; the
+// admin panel uses the same permissions to hide navigation and actions.
+import type { Database } from '@/integrations/supabase/types';
+
+export type AdminPermission = Database['public']['Enums']['admin_permission'];
+
+export type AdminRole = 'super_admin' | 'support_agent' | 'content_editor' | 'order_manager';
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'support_agent', 'content_editor', 'order_manager'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super admin',
+  support_agent: 'Support agent',
+  content_editor: 'Content editor',
+  order_manager: 'Order manager',
+};
+
+export const ADMIN_PERMISSIONS: AdminPermission[] = [
+  'faq.manage',
+  'orders.manage',
+  'escalations.manage',
+  'chats.manage',
+  'users.manage',
+  'settings.manage',
+  'analytics.view',
+];
+
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, { name: string; description: string }> = {
+  'faq.manage': { name: 'Manage FAQ', description: 'FAQ items, categories and intent patterns' },
+  'orders.manage': { name: 'Manage orders', description: 'Import and edit orders, answer order inquiries' },
+  'escalations.manage': { name: 'Work escalations', description: 'Assign, reply to and resolve escalated queries' },
+  'chats.manage': { name: 'Live chat', description: 'Take over chat sessions and message customers' },
+  'users.manage': { name: 'Manage customers', description: 'Edit and deactivate customer accounts' },
+  'settings.manage': { name: 'Manage settings', description: 'Assistant settings, rate limits and SLA policies' },
+  'analytics.view': { name: 'View analytics', description: 'Analytics and the confidence report' },
+};
+
+export function roleLabel(role: string | null | undefined): string {
+  return ADMIN_ROLE_LABELS[role as AdminRole] || role || '';
+}
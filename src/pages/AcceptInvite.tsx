@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { acceptAdminInvite, getAdminInvite, type InviteDetails } from "@/lib/adminUsers";
+import { roleLabel } from "@/lib/permissions";
+import { Shield } from "lucide-react";
+
+const AcceptInvite = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!token) {
+      setInviteError('This invite link is not valid');
+      return;
+    }
+
+    getAdminInvite(token)
+      .then(setInvite)
+      .catch((error) => setInviteError(error instanceof Error ? error.message : 'This invite link is not valid'));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Enter the same password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await acceptAdminInvite(token, password);
+
+      const { error: signInError } = await supabase.auth.signInWithPassword({
+        email: invite.email,
+        password,
+      });
+      if (signInError) throw signInError;
+
+      toast({
+        title: "Welcome aboard",
+        description: `Your admin account for ${invite.email} is ready.`,
+      });
+
+      // Force page refresh so the admin context loads the new account
+      setTimeout(() => {
+        window.location.href = '/admin';
+      }, 1000);
+    } catch (error) {
+      toast({
+        title: "Could not accept invitation",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Shield className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Join the Admin Panel</CardTitle>
+          {invite && (
+            <p className="text-muted-foreground">
+              {invite.fullName}, you were invited as {roleLabel(invite.role).toLowerCase()}. Choose a password for {invite.email}.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {inviteError ? (
+            <div className="space-y-4 text-center">
+              <p className="text-muted-foreground">{inviteError}</p>
+              <Button variant="outline" className="w-full" onClick={() => window.location.href = '/admin/auth'}>
+                Go to Admin Login
+              </Button>
+            </div>
+          ) : !invite ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium mb-2">
+                  Password
+                </label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={8}
+                  required
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium mb-2">
+                  Confirm Password
+                </label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  minLength={8}
+                  required
+                  className="w-full"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || password.length < 8 || !confirmPassword}
+              >
+                {loading ? 'Creating Account...' : 'Create Admin Account'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Send, Bot, User, ArrowLeft, Package, Plus, Paperclip } from 'lucide-react';
+import { Send, Bot, User, ArrowLeft, Package, Plus, Paperclip, Headset, Info } from 'lucide-react';
 import { MessageRating } from '@/components/MessageRating';
 import { QueryEscalation } from '@/components/QueryEscalation';
 import { SuggestedQuestions } from '@/components/SuggestedQuestions';
@@ -18,21 +18,27 @@ import { FilePreview } from '@/components/FilePreview';
 import { TypingIndicator } from '@/components/TypingIndicator';
 import { EscalationNotifications } from '@/components/EscalationNotifications';
 import OrderInquiryForm from '@/components/OrderInquiryForm';
+import { readChatStream, toChatAssistantError } from '@/lib/chatStream';
+import { ToastAction } from '@/components/ui/toast';
 
 interface Message {
   id: string;
   content: string;
-  type: 'user' | 'assistant';
+  type: 'user' | 'assistant' | 'agent' | 'system';
   timestamp: string;
   session_id: string;
   confidence_score?: number;
   response_source?: string;
   file_attachments?: FileUploadData[];
+  isStreaming?: boolean;
   metadata?: {
     suggested_questions?: string[];
   };
 }
 
+const toMessageType = (messageType: string): Message['type'] =>
+  messageType === 'user' || messageType === 'agent' || messageType === 'system' ? messageType : 'assistant';
+
 export default function Chat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -44,6 +50,10 @@ export default function Chat() {
   const [showOrderInquiry, setShowOrderInquiry] = useState(false);
   const [typingUsers, setTypingUsers] = useState<any[]>([]);
   const [isTyping, setIsTyping] = useState(false);
+  // Seconds left before a rate-limited user may send again
+  const [retryCountdown, setRetryCountdown] = useState(0);
+  // A support agent has taken over the session and the assistant is paused
+  const [agentActive, setAgentActive] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
   const { toast } = useToast();
@@ -53,21 +63,28 @@ export default function Chat() {
 
   // Stable callback references for realtime
   const handleNewMessage = useCallback((message: any) => {
-    // Add any new message (user or assistant) if it doesn't already exist
+    // Add any new message (user or assistant), or replace the local bubble with the same id
     setMessages(prev => {
       const exists = prev.find(msg => msg.id === message.id);
-      if (exists) return prev;
-      
+
       const newMessage: Message = {
         id: message.id,
         content: message.content,
-        type: message.message_type === 'user' ? 'user' : 'assistant',
+        type: toMessageType(message.message_type),
         timestamp: message.created_at,
         session_id: message.session_id,
         confidence_score: (message.metadata as any)?.confidence_score,
         response_source: (message.metadata as any)?.response_source,
-        metadata: (message.metadata as any)
+        metadata: (message.metadata as any),
+        // Realtime rows don't carry the file_uploads join, so keep what is already shown
+        file_attachments: exists?.file_attachments
       };
+
+      // The persisted row replaces the local bubble, whether it is still streaming or
+      // already finished, so it shows the stored source, metadata and timestamp
+      if (exists) {
+        return prev.map(msg => msg.id === message.id ? newMessage : msg);
+      }
       
       return [...prev, newMessage];
     });
@@ -79,6 +96,7 @@ export default function Chat() {
 
   const handleSessionUpdate = useCallback((session: any) => {
     console.log('Session updated:', session);
+    setAgentActive(!!session.agent_id);
   }, []);
 
   // Realtime functionality
@@ -93,6 +111,12 @@ export default function Chat() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  useEffect(() => {
+    if (retryCountdown <= 0) return;
+    const timer = setTimeout(() => setRetryCountdown(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryCountdown]);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -133,6 +157,7 @@ export default function Chat() {
         }
         
         currentSessionId = existingSession.id;
+        setAgentActive(!!existingSession.agent_id);
       } else {
         let { data: activeSession } = await supabase
           .from('chat_sessions')
@@ -159,6 +184,7 @@ export default function Chat() {
         }
         
         currentSessionId = activeSession.id;
+        setAgentActive(!!activeSession.agent_id);
         navigate(`/chat/${currentSessionId}`, { replace: true });
       }
 
@@ -208,7 +234,7 @@ export default function Chat() {
           return {
             id: msg.id,
             content: msg.content,
-            type: msg.message_type === 'user' ? 'user' : 'assistant',
+            type: toMessageType(msg.message_type),
             timestamp: msg.created_at,
             session_id: msg.session_id,
             confidence_score: (msg.metadata as any)?.confidence_score,
@@ -230,7 +256,7 @@ export default function Chat() {
     const filesToAttach = includeFiles ? pendingFiles : [];
     
     if (!textToSend && filesToAttach.length === 0) return;
-    if (!sessionId || !user) return;
+    if (!sessionId || !user || retryCountdown > 0) return;
 
     // Stop typing indicator
     if (isTyping) {
@@ -283,7 +309,7 @@ export default function Chat() {
         }
       }
 
-      const isFirstMessage = messages.length === 0;
+      const isFirstMessage = !messages.some(msg => msg.type === 'user');
       if (isFirstMessage) {
         await supabase
           .from('chat_sessions')
@@ -301,29 +327,82 @@ export default function Chat() {
           .eq('id', sessionId);
       }
 
+      // The agent answers in person; their reply arrives through the realtime channel
+      if (agentActive) return;
+
       const response = await supabase.functions.invoke('chat-assistant', {
         body: {
           query: textToSend || `User shared ${filesToAttach.length} file(s): ${filesToAttach.map(f => f.fileName).join(', ')}`,
           sessionId: sessionId,
-          userId: user.id,
-          hasFiles: filesToAttach.length > 0,
-          fileTypes: filesToAttach.map(f => f.fileType)
+          fileIds: filesToAttach.map(f => f.id),
+          stream: true
         }
       });
 
       if (response.error) throw response.error;
 
-      const { suggestedQuestions: newSuggestions } = response.data;
-      
-      // Don't create a temporary assistant message here - wait for real-time update
-      // The edge function will save the assistant message to the database
-      setSuggestedQuestions(newSuggestions || []);
+      // Render the assistant bubble as tokens arrive; the realtime INSERT for the same id
+      // replaces it with the persisted row once the edge function has saved it
+      let streamingId: string | null = null;
+      const result = await readChatStream(response.data as Response, {
+        onStart: (messageId) => {
+          streamingId = messageId;
+          setMessages(prev => prev.some(msg => msg.id === messageId) ? prev : [...prev, {
+            id: messageId,
+            content: '',
+            type: 'assistant',
+            timestamp: new Date().toISOString(),
+            session_id: sessionId,
+            isStreaming: true,
+          }]);
+        },
+        onToken: (text) => {
+          setMessages(prev => prev.map(msg =>
+            msg.id === streamingId && msg.isStreaming
+              ? { ...msg, content: msg.content + text }
+              : msg
+          ));
+        },
+      });
+
+      setMessages(prev => prev.map(msg =>
+        msg.id === streamingId && msg.isStreaming
+          ? {
+              ...msg,
+              content: result.response,
+              confidence_score: result.confidence,
+              isStreaming: false,
+              metadata: { suggested_questions: result.suggestedQuestions },
+            }
+          : msg
+      ));
+      setSuggestedQuestions(result.suggestedQuestions || []);
 
     } catch (error) {
       console.error('Error sending message:', error);
+      setMessages(prev => prev.filter(msg => !msg.isStreaming));
+
+      const chatError = await toChatAssistantError(error);
+      // An agent took over after the message was sent; it is saved and they will see it
+      if (chatError.code === 'agent_active') {
+        setAgentActive(true);
+        return;
+      }
+      if (chatError.code === 'rate_limited') {
+        setRetryCountdown(chatError.retryAfter ?? 30);
+        return;
+      }
+
+      const sessionUnavailable = chatError.code === 'session_forbidden' || chatError.code === 'session_not_found';
       toast({
-        description: "Failed to send message. Please try again.",
+        title: chatError.code === 'internal_error' ? undefined : "Message not sent",
+        description: chatError.code === 'internal_error'
+          ? "Failed to send message. Please try again."
+          : chatError.message,
         variant: "destructive",
+        action: sessionUnavailable
+          ? <ToastAction altText="Start a new chat" onClick={startNewChat}>New chat</ToastAction>
+          : undefined,
       });
     } finally {
       setIsLoading(false);
@@ -419,7 +498,7 @@ export default function Chat() {
             <div>
               <h1 className="font-semibold text-foreground">ScootAssist AI</h1>
               <p className="text-sm text-muted-foreground">
-                {isLoading ? "Typing..." : "Online"}
+                {agentActive ? "Chatting with a support agent" : isLoading ? "Typing..." : "Online"}
               </p>
             </div>
           </div>
@@ -452,7 +531,15 @@ export default function Chat() {
           </div>
         ) : (
           <div className="space-y-4">
-            {messages.map((message) => (
+            {messages.map((message) => message.type === 'system' ? (
+              <div key={message.id} className="flex justify-center">
+                <div className="flex items-center gap-2 rounded-full border bg-muted/50 px-3 py-1 text-xs text-muted-foreground">
+                  <Info className="h-3 w-3" />
+                  <span>{message.content}</span>
+                  <span className="opacity-70">{formatTime(message.timestamp)}</span>
+                </div>
+              </div>
+            ) : (
               <div
                 key={message.id}
                 className={`flex items-start gap-3 ${
@@ -461,18 +548,28 @@ export default function Chat() {
               >
                 <Avatar className="h-8 w-8">
                   <AvatarFallback>
-                    {message.type === 'user' ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                    {message.type === 'user'
+                      ? <User className="h-4 w-4" />
+                      : message.type === 'agent' ? <Headset className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
                   </AvatarFallback>
                 </Avatar>
                 <div className="flex flex-col gap-2 max-w-[70%]">
+                   {message.type === 'agent' && (
+                     <span className="text-xs font-medium text-blue-700">Support agent</span>
+                   )}
                    <div
                      className={`p-3 rounded-lg ${
                        message.type === 'user'
                          ? 'bg-primary text-primary-foreground'
-                         : 'bg-muted'
+                         : message.type === 'agent' ? 'bg-blue-50 border border-blue-200' : 'bg-muted'
                      }`}
                    >
-                     {message.content && <p className="text-sm">{message.content}</p>}
+                     {message.content && (
+                       <p className="text-sm whitespace-pre-wrap">
+                         {message.content}
+                         {message.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-muted-foreground animate-pulse" />}
+                       </p>
+                     )}
                      
                      {/* File Attachments */}
                      {message.file_attachments && message.file_attachments.length > 0 && (
@@ -492,7 +589,7 @@ export default function Chat() {
                        <p className="text-xs opacity-70">
                          {formatTime(message.timestamp)}
                        </p>
-                       {message.type === 'assistant' && message.confidence_score && (
+                       {message.type === 'assistant' && !message.isStreaming && message.confidence_score && (
                          <ConfidenceIndicator 
                            confidence={message.confidence_score}
                            source={message.response_source}
@@ -501,7 +598,7 @@ export default function Chat() {
                      </div>
                    </div>
                   
-                  {message.type === 'assistant' && (
+                  {message.type === 'assistant' && !message.isStreaming && (
                     <div className="flex flex-col gap-2">
                       <div className="flex items-center gap-2">
                         <MessageRating messageId={message.id} />
@@ -521,7 +618,7 @@ export default function Chat() {
           </div>
         )}
         
-        {isLoading && (
+        {isLoading && !messages.some(msg => msg.isStreaming && msg.content) && (
           <div className="flex items-start gap-3">
             <Avatar className="h-8 w-8">
               <AvatarFallback>
@@ -539,7 +636,11 @@ export default function Chat() {
         )}
 
         {/* Typing Indicator */}
-        <TypingIndicator typingUsers={typingUsers} className="px-4 pb-2" />
+        <TypingIndicator
+          typingUsers={typingUsers.filter(typingUser => typingUser.user_id !== user.id)}
+          label={agentActive ? 'Support agent is typing...' : undefined}
+          className="px-4 pb-2"
+        />
         
         <div ref={messagesEndRef} />
       </div>
@@ -588,6 +689,19 @@ export default function Chat() {
           </div>
         )}
         
+        {agentActive && (
+          <div className="flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-800">
+            <Headset className="h-4 w-4" />
+            A member of our support team has joined and will reply to you here.
+          </div>
+        )}
+
+        {retryCountdown > 0 && (
+          <div className="rounded-lg border border-orange-200 bg-orange-50 px-3 py-2 text-sm text-orange-800">
+            You're sending messages too quickly and your last message wasn't answered. You can send again in {retryCountdown}s.
+          </div>
+        )}
+
         <div className="flex gap-2 items-end">
           <div className="flex-1 space-y-2">
             {/* Main input with integrated file upload */}
@@ -634,7 +748,7 @@ export default function Chat() {
               </Button>
               <Button 
                 onClick={() => sendMessage()} 
-                disabled={isLoading || (!input.trim() && pendingFiles.length === 0)}
+                disabled={isLoading || retryCountdown > 0 || (!input.trim() && pendingFiles.length === 0)}
               >
                 <Send className="h-4 w-4" />
               </Button>
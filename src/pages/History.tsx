@@ -4,11 +4,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Search, MessageCircle, Clock, Trash2 } from "lucide-react";
+import { Search, MessageCircle, Clock, Trash2, MessageSquare } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { useNavigate } from "react-router-dom";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { EscalationNotifications } from '@/components/EscalationNotifications';
+import { EscalationThread } from '@/components/EscalationThread';
+import { EscalationSurvey } from '@/components/EscalationSurvey';
 
 interface ChatSession {
   id: string;
@@ -19,7 +22,7 @@ interface ChatSession {
   session_summary: string | null;
   message_count?: number;
   last_message?: string;
-  escalated_queries?: Array<{ status: string }>;
+  escalated_queries?: Array<{ id: string; status: string; original_question: string; resolved_at: string | null }>;
 }
 
 const History = () => {
@@ -29,6 +32,7 @@ const History = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(true);
+  const [threadSession, setThreadSession] = useState<ChatSession | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -43,7 +47,7 @@ const History = () => {
         .select(`
           *,
           messages(count),
-          escalated_queries(status)
+          escalated_queries(id, status, original_question, resolved_at)
         `)
         .eq('user_id', user?.id)
         .order('updated_at', { ascending: false });
@@ -244,6 +248,20 @@ const History = () => {
                   </div>
                   
                   <div className="flex items-center gap-2">
+                    {hasEscalatedQuery && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setThreadSession(session);
+                        }}
+                        className="h-6 px-2 text-xs"
+                      >
+                        <MessageSquare className="h-3 w-3 mr-1" />
+                        Support replies
+                      </Button>
+                    )}
                     {hasEscalatedQuery && (
                       <Badge 
                         variant={pendingEscalation ? "destructive" : "secondary"} 
@@ -265,6 +283,41 @@ const History = () => {
           })
         )}
       </div>
+
+      <Dialog open={!!threadSession} onOpenChange={(open) => !open && setThreadSession(null)}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Conversation with Support</DialogTitle>
+          </DialogHeader>
+          {threadSession && user && (
+            <div className="space-y-6">
+              {threadSession.escalated_queries?.map((escalation) => (
+                <div key={escalation.id} className="space-y-2">
+                  <p className="text-sm text-muted-foreground">"{escalation.original_question}"</p>
+                  <EscalationThread
+                    escalationId={escalation.id}
+                    viewer="customer"
+                    authorId={user.id}
+                    disabled={escalation.status === 'closed'}
+                  />
+                  {escalation.status === 'resolved' && escalation.resolved_at && (
+                    <EscalationSurvey
+                      escalationId={escalation.id}
+                      resolvedAt={escalation.resolved_at}
+                      onSubmitted={(reopened) => {
+                        if (reopened) {
+                          setThreadSession(null);
+                          loadChatHistory();
+                        }
+                      }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
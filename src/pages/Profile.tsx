@@ -5,9 +5,27 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { User, Phone, Mail, Save, LogOut } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { User, Phone, Mail, Save, LogOut, Download, Trash2, Database } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  cancelAccountDeletion,
+  downloadMyData,
+  requestAccountDeletion,
+  type DataDeletionRequest,
+} from "@/lib/customerData";
 
 const Profile = () => {
   const { user, signOut } = useAuth();
@@ -18,10 +36,15 @@ const Profile = () => {
     email: '',
     phone_number: ''
   });
+  const [isExporting, setIsExporting] = useState(false);
+  const [deletionRequest, setDeletionRequest] = useState<DataDeletionRequest | null>(null);
+  const [deletionReason, setDeletionReason] = useState('');
+  const [isSubmittingDeletion, setIsSubmittingDeletion] = useState(false);
 
   useEffect(() => {
     if (user) {
       loadProfile();
+      loadDeletionRequest();
     }
   }, [user]);
 
@@ -75,6 +98,77 @@ const Profile = () => {
     }
   };
 
+  const loadDeletionRequest = async () => {
+    const { data, error } = await supabase
+      .from('data_deletion_requests')
+      .select('*')
+      .eq('user_id', user?.id)
+      .in('status', ['pending', 'approved'])
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading deletion request:', error);
+      return;
+    }
+    setDeletionRequest(data);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadMyData();
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export your data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRequestDeletion = async () => {
+    setIsSubmittingDeletion(true);
+    try {
+      setDeletionRequest(await requestAccountDeletion(deletionReason));
+      setDeletionReason('');
+      toast({
+        title: "Deletion requested",
+        description: "We'll review your request and delete your account and data.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to request deletion",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmittingDeletion(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsSubmittingDeletion(true);
+    try {
+      await cancelAccountDeletion();
+      setDeletionRequest(null);
+      toast({
+        title: "Success",
+        description: "Your deletion request was cancelled",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel the request",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmittingDeletion(false);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -159,6 +253,89 @@ const Profile = () => {
         </CardContent>
       </Card>
 
+      {/* Data Export & Deletion */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Your Data
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Download a copy of your profile, conversations, files, orders and inquiries as a ZIP file.
+          </p>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? 'Preparing Download...' : 'Download My Data'}
+          </Button>
+
+          {deletionRequest ? (
+            <div className="p-3 bg-muted rounded-lg space-y-3">
+              <div>
+                <p className="font-medium">Account deletion requested</p>
+                <p className="text-sm text-muted-foreground">
+                  Requested {new Date(deletionRequest.created_at).toLocaleString()}.{' '}
+                  {deletionRequest.status === 'pending'
+                    ? 'Your request is waiting for review.'
+                    : 'Your request was approved and your data is being deleted.'}
+                </p>
+              </div>
+              {deletionRequest.status === 'pending' && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancelDeletion}
+                  disabled={isSubmittingDeletion}
+                  className="w-full"
+                >
+                  Cancel Deletion Request
+                </Button>
+              )}
+            </div>
+          ) : (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="w-full text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete My Account
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Once approved, your profile, conversations, files and inquiries are permanently deleted.
+                    Orders are kept for our records without your personal details. You can cancel until the
+                    request is reviewed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <Textarea
+                  value={deletionReason}
+                  onChange={(e) => setDeletionReason(e.target.value)}
+                  placeholder="Tell us why you're leaving (optional)"
+                  rows={3}
+                />
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep Account</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleRequestDeletion}
+                    disabled={isSubmittingDeletion}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Request Deletion
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Account Actions */}
       <Card>
         <CardHeader>
@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { inviteAdmin, revokeAdminInvite, setAdminActive, type AdminInvite } from '@/lib/adminUsers';
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, roleLabel, type AdminRole } from '@/lib/permissions';
+import { Copy, Mail, UserCog, UserPlus } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  is_active: boolean | null;
+  created_at: string | null;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  expires_at: string;
+  created_at: string;
+}
+
+const EMPTY_INVITE = { email: '', full_name: '', role: 'support_agent' as AdminRole };
+
+const AdminUsers = () => {
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [savingAdminId, setSavingAdminId] = useState<string | null>(null);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState(EMPTY_INVITE);
+  const [createdInvite, setCreatedInvite] = useState<AdminInvite | null>(null);
+  const [inviting, setInviting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { adminData } = useAdminAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([fetchAdmins(), fetchInvitations()]).finally(() => setLoading(false));
+  }, []);
+
+  const fetchAdmins = async () => {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('id, email, full_name, role, is_active, created_at')
+      .order('full_name');
+
+    if (error) {
+      console.error('Error fetching admin users:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load admin users",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAdmins(data || []);
+  };
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from('admin_invitations')
+      .select('id, email, full_name, role, expires_at, created_at')
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching admin invitations:', error);
+      return;
+    }
+    setInvitations(data || []);
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateRole = async (admin: AdminUser, role: AdminRole) => {
+    setSavingAdminId(admin.id);
+    try {
+      const { error } = await supabase
+        .from('admin_users')
+        .update({ role })
+        .eq('id', admin.id);
+
+      if (error) throw new Error(error.message);
+
+      setAdmins(prev => prev.map(item => item.id === admin.id ? { ...item, role } : item));
+      toast({
+        title: "Success",
+        description: `${admin.full_name} is now a ${ADMIN_ROLE_LABELS[role].toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Error updating admin role:', error);
+      showError(error, "Failed to update role");
+    } finally {
+      setSavingAdminId(null);
+    }
+  };
+
+  const toggleActive = async (admin: AdminUser) => {
+    const isActive = !admin.is_active;
+    setSavingAdminId(admin.id);
+    try {
+      await setAdminActive(admin.id, isActive);
+      setAdmins(prev => prev.map(item => item.id === admin.id ? { ...item, is_active: isActive } : item));
+      toast({
+        title: "Success",
+        description: `${admin.full_name} was ${isActive ? 'reactivated' : 'deactivated'}`,
+      });
+    } catch (error) {
+      console.error('Error updating admin status:', error);
+      showError(error, "Failed to update admin");
+    } finally {
+      setSavingAdminId(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    try {
+      const invite = await inviteAdmin(inviteForm.email, inviteForm.full_name, inviteForm.role);
+      setCreatedInvite(invite);
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error inviting admin:', error);
+      showError(error, "Failed to create invitation");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeAdminInvite(invitation.id);
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.email} revoked`,
+      });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      showError(error, "Failed to revoke invitation");
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!createdInvite) return;
+    await navigator.clipboard.writeText(createdInvite.inviteUrl);
+    toast({ description: "Invite link copied" });
+  };
+
+  const closeInviteDialog = (open: boolean) => {
+    setInviteDialogOpen(open);
+    if (!open) {
+      setInviteForm(EMPTY_INVITE);
+      setCreatedInvite(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <UserCog className="h-8 w-8" />
+            Admin Users
+          </h1>
+          <p className="text-muted-foreground">Invite admins, choose their role and deactivate their access</p>
+        </div>
+
+        <Dialog open={inviteDialogOpen} onOpenChange={closeInviteDialog}>
+          <DialogTrigger asChild>
+            <Button>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite Admin
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Invite Admin</DialogTitle>
+            </DialogHeader>
+            {createdInvite ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Send this link to {inviteForm.email}. It can be used once and expires on{' '}
+                  {format(new Date(createdInvite.expiresAt), 'MMM dd, yyyy')}. It will not be shown again.
+                </p>
+                <div className="flex gap-2">
+                  <Input value={createdInvite.inviteUrl} readOnly />
+                  <Button variant="outline" onClick={copyInviteLink}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={() => closeInviteDialog(false)}>Done</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={inviteForm.email}
+                    onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                    placeholder="agent@example.com"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="invite-name">Full Name</Label>
+                  <Input
+                    id="invite-name"
+                    value={inviteForm.full_name}
+                    onChange={(e) => setInviteForm({ ...inviteForm, full_name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Role</Label>
+                  <Select
+                    value={inviteForm.role}
+                    onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as AdminRole })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADMIN_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ADMIN_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => closeInviteDialog(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleInvite}
+                    disabled={inviting || !inviteForm.email.trim() || !inviteForm.full_name.trim()}
+                  >
+                    Create Invite Link
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Admins ({admins.length})</CardTitle>
+          <CardDescription>
+            Role changes apply the next time the admin loads the panel. At least one active super admin is always kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.map((admin) => {
+                const isSelf = admin.id === adminData?.id;
+                return (
+                  <TableRow key={admin.id}>
+                    <TableCell className="font-medium">
+                      {admin.full_name}{isSelf ? ' (me)' : ''}
+                    </TableCell>
+                    <TableCell>{admin.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={admin.role}
+                        onValueChange={(value) => updateRole(admin, value as AdminRole)}
+                        disabled={savingAdminId === admin.id}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ADMIN_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ADMIN_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={admin.is_active ? 'default' : 'secondary'}>
+                        {admin.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {admin.created_at ? format(new Date(admin.created_at), 'MMM dd, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant={admin.is_active ? 'outline' : 'default'}
+                        onClick={() => toggleActive(admin)}
+                        disabled={isSelf || savingAdminId === admin.id}
+                      >
+                        {admin.is_active ? 'Deactivate' : 'Reactivate'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Pending Invitations ({invitations.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open invitations</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expires_at) < new Date();
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">{invitation.full_name}</TableCell>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>{roleLabel(invitation.role)}</TableCell>
+                      <TableCell>
+                        {expired ? (
+                          <Badge variant="secondary">Expired</Badge>
+                        ) : (
+                          format(new Date(invitation.expires_at), 'MMM dd, yyyy HH:mm')
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => handleRevoke(invitation)}>
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminUsers;
@@ -1,8 +1,67 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { supabase } from '@/integrations/supabase/client';
-import { BarChart3, TrendingUp, Users, MessageSquare } from 'lucide-react';
+import { ESCALATION_CATEGORY_LABELS, type EscalationCategory } from '@/lib/escalations';
+import { BarChart3, TrendingUp, Users, MessageSquare, Star } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+
+interface SurveyRow {
+  rating: number;
+  reopened: boolean;
+  category: EscalationCategory | null;
+  admin_id: string | null;
+  admin_users: { full_name: string } | null;
+}
+
+interface CsatGroup {
+  name: string;
+  responses: number;
+  averageRating: number;
+  // Share of 4 and 5 star ratings
+  satisfiedRate: number;
+  reopenRate: number;
+}
+
+interface CsatSummary {
+  overall: CsatGroup;
+  byAdmin: CsatGroup[];
+  byCategory: CsatGroup[];
+}
+
+const summarizeSurveys = (name: string, rows: SurveyRow[]): CsatGroup => ({
+  name,
+  responses: rows.length,
+  averageRating: rows.length > 0 ? rows.reduce((sum, row) => sum + row.rating, 0) / rows.length : 0,
+  satisfiedRate: rows.length > 0 ? rows.filter(row => row.rating >= 4).length / rows.length : 0,
+  reopenRate: rows.length > 0 ? rows.filter(row => row.reopened).length / rows.length : 0,
+});
+
+const groupSurveys = (rows: SurveyRow[], keyOf: (row: SurveyRow) => string): CsatGroup[] => {
+  const groups = new Map<string, SurveyRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return Array.from(groups, ([name, groupRows]) => summarizeSurveys(name, groupRows))
+    .sort((a, b) => b.responses - a.responses);
+};
+
+const buildCsatSummary = (rows: SurveyRow[]): CsatSummary => ({
+  overall: summarizeSurveys('All', rows),
+  byAdmin: groupSurveys(rows, row => row.admin_users?.full_name || 'Unassigned'),
+  byCategory: groupSurveys(rows, row => ESCALATION_CATEGORY_LABELS[row.category || 'other']),
+});
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
 
 const Analytics = () => {
   const [analytics, setAnalytics] = useState({
@@ -19,8 +78,11 @@ const Analytics = () => {
       pending: 0,
     }
   });
+  const [csat, setCsat] = useState<CsatSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
+  const { hasPermission } = useAdminAuth();
+  const canReviewChats = hasPermission('chats.manage');
 
   useEffect(() => {
     fetchAnalytics();
@@ -64,6 +126,13 @@ const Analytics = () => {
         supabase.from('escalated_queries').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
       ]);
 
+      // Fetch escalation satisfaction surveys
+      const { data: surveys } = await supabase
+        .from('escalation_surveys')
+        .select('rating, reopened, category, admin_id, admin_users (full_name)');
+
+      setCsat(buildCsatSummary(surveys || []));
+
       setAnalytics({
         topQuestions: topQuestions || [],
         categoryStats,
@@ -103,8 +172,8 @@ const Analytics = () => {
       {/* Key Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card 
-          className="cursor-pointer hover:bg-muted/50 transition-colors"
-          onClick={() => navigate('/admin/chat-review')}
+          className={canReviewChats ? "cursor-pointer hover:bg-muted/50 transition-colors" : ""}
+          onClick={canReviewChats ? () => navigate('/admin/chat-review') : undefined}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Sessions</CardTitle>
@@ -117,8 +186,8 @@ const Analytics = () => {
         </Card>
 
         <Card 
-          className="cursor-pointer hover:bg-muted/50 transition-colors"
-          onClick={() => navigate('/admin/chat-review')}
+          className={canReviewChats ? "cursor-pointer hover:bg-muted/50 transition-colors" : ""}
+          onClick={canReviewChats ? () => navigate('/admin/chat-review') : undefined}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Messages</CardTitle>
@@ -225,6 +294,78 @@ const Analytics = () => {
         </Card>
       </div>
 
+      {/* Customer Satisfaction */}
+      <Card>
+        <CardHeader
+          className="cursor-pointer hover:bg-muted/50 transition-colors"
+          onClick={() => navigate('/admin/escalated')}
+        >
+          <CardTitle className="flex items-center gap-2">
+            <Star className="h-5 w-5" />
+            Escalation Satisfaction (CSAT)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!csat || csat.overall.responses === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No survey responses yet</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-4 md:grid-cols-4">
+                <div>
+                  <div className="text-2xl font-bold">{csat.overall.averageRating.toFixed(1)} / 5</div>
+                  <p className="text-xs text-muted-foreground">Average rating</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">{formatPercent(csat.overall.satisfiedRate)}</div>
+                  <p className="text-xs text-muted-foreground">Satisfied (4-5 stars)</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">{formatPercent(csat.overall.reopenRate)}</div>
+                  <p className="text-xs text-muted-foreground">Reopened after resolution</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">{csat.overall.responses}</div>
+                  <p className="text-xs text-muted-foreground">Responses</p>
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {[
+                  { title: 'By Admin', groups: csat.byAdmin },
+                  { title: 'By Category', groups: csat.byCategory },
+                ].map(({ title, groups }) => (
+                  <div key={title}>
+                    <h3 className="font-semibold mb-2">{title}</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{title === 'By Admin' ? 'Admin' : 'Category'}</TableHead>
+                          <TableHead className="text-right">Responses</TableHead>
+                          <TableHead className="text-right">Avg</TableHead>
+                          <TableHead className="text-right">Satisfied</TableHead>
+                          <TableHead className="text-right">Reopened</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {groups.map((group) => (
+                          <TableRow key={group.name}>
+                            <TableCell className="font-medium">{group.name}</TableCell>
+                            <TableCell className="text-right">{group.responses}</TableCell>
+                            <TableCell className="text-right">{group.averageRating.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">{formatPercent(group.satisfiedRate)}</TableCell>
+                            <TableCell className="text-right">{formatPercent(group.reopenRate)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Additional Analytics Placeholder */}
       <Card>
         <CardHeader>
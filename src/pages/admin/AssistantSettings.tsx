@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Gauge, Save, UserCheck } from 'lucide-react';
+
+interface RateLimitSetting {
+  scope: string;
+  capacity: number;
+  refill_per_minute: number;
+  is_enabled: boolean;
+  updated_at: string | null;
+}
+
+interface AutoEscalationSetting {
+  is_enabled: boolean;
+  low_confidence_threshold: number;
+  low_confidence_streak: number;
+  rephrase_limit: number;
+  frustration_limit: number;
+  updated_at: string | null;
+}
+
+const SCOPE_DESCRIPTIONS: Record<string, { title: string; description: string }> = {
+  user: {
+    title: 'Per customer',
+    description: 'Limits how many messages a signed-in customer can send to the assistant.',
+  },
+  ip: {
+    title: 'Per IP address',
+    description: 'Limits requests from one network address, across all accounts using it. Keep this higher than the per-customer limit, since offices and mobile networks share addresses.',
+  },
+};
+
+const AssistantSettings = () => {
+  const [rateLimits, setRateLimits] = useState<RateLimitSetting[]>([]);
+  const [savingScope, setSavingScope] = useState<string | null>(null);
+  const [autoEscalation, setAutoEscalation] = useState<AutoEscalationSetting | null>(null);
+  const [savingEscalation, setSavingEscalation] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { adminData } = useAdminAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRateLimits();
+    fetchAutoEscalation();
+  }, []);
+
+  const fetchRateLimits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rate_limit_settings')
+        .select('scope, capacity, refill_per_minute, is_enabled, updated_at')
+        .order('scope', { ascending: false });
+
+      if (error) throw error;
+      setRateLimits(data || []);
+    } catch (error) {
+      console.error('Error fetching rate limits:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load rate limits",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAutoEscalation = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('auto_escalation_settings')
+        .select('is_enabled, low_confidence_threshold, low_confidence_streak, rephrase_limit, frustration_limit, updated_at')
+        .maybeSingle();
+
+      if (error) throw error;
+      setAutoEscalation(data);
+    } catch (error) {
+      console.error('Error fetching auto escalation settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load automatic escalation settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateAutoEscalation = (changes: Partial<AutoEscalationSetting>) => {
+    setAutoEscalation(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const saveAutoEscalation = async () => {
+    if (!autoEscalation) return;
+    if (autoEscalation.low_confidence_threshold <= 0 || autoEscalation.low_confidence_threshold > 1) {
+      toast({
+        title: "Invalid threshold",
+        description: "The confidence threshold must be between 0 and 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingEscalation(true);
+    try {
+      const { error } = await supabase
+        .from('auto_escalation_settings')
+        .update({
+          is_enabled: autoEscalation.is_enabled,
+          low_confidence_threshold: autoEscalation.low_confidence_threshold,
+          low_confidence_streak: autoEscalation.low_confidence_streak,
+          rephrase_limit: autoEscalation.rephrase_limit,
+          frustration_limit: autoEscalation.frustration_limit,
+          updated_by: adminData?.id,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Automatic escalation settings updated successfully",
+      });
+      fetchAutoEscalation();
+    } catch (error) {
+      console.error('Error saving auto escalation settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save automatic escalation settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEscalation(false);
+    }
+  };
+
+  const updateRateLimit = (scope: string, changes: Partial<RateLimitSetting>) => {
+    setRateLimits(prev => prev.map(limit => limit.scope === scope ? { ...limit, ...changes } : limit));
+  };
+
+  const saveRateLimit = async (limit: RateLimitSetting) => {
+    if (limit.capacity < 1 || limit.refill_per_minute <= 0) {
+      toast({
+        title: "Invalid limit",
+        description: "Burst size must be at least 1 and the refill rate must be above 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingScope(limit.scope);
+    try {
+      const { error } = await supabase
+        .from('rate_limit_settings')
+        .update({
+          capacity: limit.capacity,
+          refill_per_minute: limit.refill_per_minute,
+          is_enabled: limit.is_enabled,
+          updated_by: adminData?.id,
+        })
+        .eq('scope', limit.scope);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Rate limit updated successfully",
+      });
+      fetchRateLimits();
+    } catch (error) {
+      console.error('Error saving rate limit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save rate limit",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingScope(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Assistant Settings</h1>
+        <p className="text-muted-foreground">Configure how the chat assistant behaves</p>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Rate Limits
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Each message uses one request. Customers can send up to the burst size at once, after which requests become available again at the refill rate.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {rateLimits.map((limit) => (
+          <Card key={limit.scope}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                {SCOPE_DESCRIPTIONS[limit.scope]?.title ?? limit.scope}
+                <Switch
+                  checked={limit.is_enabled}
+                  onCheckedChange={(checked) => updateRateLimit(limit.scope, { is_enabled: checked })}
+                />
+              </CardTitle>
+              <CardDescription>{SCOPE_DESCRIPTIONS[limit.scope]?.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`${limit.scope}-capacity`}>Burst size (requests)</Label>
+                <Input
+                  id={`${limit.scope}-capacity`}
+                  type="number"
+                  min="1"
+                  value={limit.capacity}
+                  disabled={!limit.is_enabled}
+                  onChange={(e) => updateRateLimit(limit.scope, { capacity: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${limit.scope}-refill`}>Refill rate (requests per minute)</Label>
+                <Input
+                  id={`${limit.scope}-refill`}
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={limit.refill_per_minute}
+                  disabled={!limit.is_enabled}
+                  onChange={(e) => updateRateLimit(limit.scope, { refill_per_minute: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {limit.updated_at && `Last updated ${new Date(limit.updated_at).toLocaleString()}`}
+                </span>
+                <Button onClick={() => saveRateLimit(limit)} disabled={savingScope === limit.scope}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {savingScope === limit.scope ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {rateLimits.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No rate limits configured
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Automatic Escalation
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Passes the conversation to the support team when the assistant is not helping. The customer is told, and the escalation appears under Escalated Queries. Set a limit to 0 to ignore that signal.
+        </p>
+      </div>
+
+      {autoEscalation ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Escalate to a human
+              <Switch
+                checked={autoEscalation.is_enabled}
+                onCheckedChange={(checked) => updateAutoEscalation({ is_enabled: checked })}
+              />
+            </CardTitle>
+            <CardDescription>A conversation is escalated as soon as any of these limits is reached.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="low-confidence-threshold">Low confidence below</Label>
+                <Input
+                  id="low-confidence-threshold"
+                  type="number"
+                  min="0.05"
+                  max="1"
+                  step="0.05"
+                  value={autoEscalation.low_confidence_threshold}
+                  disabled={!autoEscalation.is_enabled}
+                  onChange={(e) => updateAutoEscalation({ low_confidence_threshold: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="low-confidence-streak">Low-confidence answers in a row</Label>
+                <Input
+                  id="low-confidence-streak"
+                  type="number"
+                  min="0"
+                  value={autoEscalation.low_confidence_streak}
+                  disabled={!autoEscalation.is_enabled}
+                  onChange={(e) => updateAutoEscalation({ low_confidence_streak: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rephrase-limit">Times the same question is rephrased</Label>
+                <Input
+                  id="rephrase-limit"
+                  type="number"
+                  min="0"
+                  value={autoEscalation.rephrase_limit}
+                  disabled={!autoEscalation.is_enabled}
+                  onChange={(e) => updateAutoEscalation({ rephrase_limit: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="frustration-limit">Messages with frustrated wording</Label>
+                <Input
+                  id="frustration-limit"
+                  type="number"
+                  min="0"
+                  value={autoEscalation.frustration_limit}
+                  disabled={!autoEscalation.is_enabled}
+                  onChange={(e) => updateAutoEscalation({ frustration_limit: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {autoEscalation.updated_at && `Last updated ${new Date(autoEscalation.updated_at).toLocaleString()}`}
+              </span>
+              <Button onClick={saveAutoEscalation} disabled={savingEscalation}>
+                <Save className="h-4 w-4 mr-2" />
+                {savingEscalation ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          Automatic escalation is not configured
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssistantSettings;
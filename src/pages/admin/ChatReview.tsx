@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,8 +7,13 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { TypingIndicator } from '@/components/TypingIndicator';
 import { supabase } from '@/integrations/supabase/client';
-import { MessageSquare, Eye, Search, Calendar, User, ArrowRight } from 'lucide-react';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useRealtime } from '@/hooks/useRealtime';
+import { useToast } from '@/hooks/use-toast';
+import { handBackSession, sendAgentMessage, takeOverSession } from '@/lib/agentHandoff';
+import { MessageSquare, Eye, Search, Calendar, User, ArrowRight, Headset, Send, Bot, Info, Download } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface ChatSession {
@@ -19,14 +24,23 @@ interface ChatSession {
   user_name: string;
   message_count: number;
   is_active: boolean;
+  agent_id: string | null;
+  agent_name: string | null;
 }
 
 interface Message {
   id: string;
   content: string;
-  message_type: 'user' | 'assistant' | 'system';
+  message_type: 'user' | 'assistant' | 'system' | 'agent';
   created_at: string;
   metadata?: any;
+  author_id?: string | null;
+  author?: { full_name: string } | null;
+}
+
+interface TypingUser {
+  user_id: string;
+  is_typing: boolean;
 }
 
 const ChatReview = () => {
@@ -37,11 +51,52 @@ const ChatReview = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [messagesLoading, setMessagesLoading] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [reply, setReply] = useState('');
+  const [isTyping, setIsTyping] = useState(false);
+  const [handoffPending, setHandoffPending] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { user, adminData, hasPermission } = useAdminAuth();
+  const canChat = hasPermission('chats.manage');
+  const { toast } = useToast();
+
+  const handleNewMessage = useCallback((message: Message) => {
+    setMessages(prev => prev.some(msg => msg.id === message.id) ? prev : [...prev, message]);
+  }, []);
+
+  const handleTypingChange = useCallback((users: TypingUser[]) => {
+    setTypingUsers(users);
+  }, []);
+
+  const handleSessionUpdate = useCallback((session: { id: string; agent_id: string | null }) => {
+    setSelectedSession(prev => prev && prev.id === session.id ? { ...prev, agent_id: session.agent_id } : prev);
+    setSessions(prev => prev.map(item => item.id === session.id ? { ...item, agent_id: session.agent_id } : item));
+  }, []);
+
+  const { updateTypingStatus } = useRealtime({
+    sessionId: selectedSession?.id,
+    onNewMessage: handleNewMessage,
+    onTypingChange: handleTypingChange,
+    onSessionUpdate: handleSessionUpdate,
+  });
 
   useEffect(() => {
     fetchSessions();
   }, [searchTerm]);
 
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // Escalated Queries links here with ?session=<id> after taking over a conversation
+  useEffect(() => {
+    const sessionParam = searchParams.get('session');
+    if (!sessionParam || selectedSession?.id === sessionParam) return;
+    const session = sessions.find(item => item.id === sessionParam);
+    if (session) openSession(session);
+  }, [sessions, searchParams]);
+
   const fetchSessions = async () => {
     try {
       // Update session status first - mark inactive sessions
@@ -55,7 +110,9 @@ const ChatReview = () => {
           created_at,
           user_id,
           is_active,
+          agent_id,
           users!inner(full_name),
+          agent:admin_users!chat_sessions_agent_id_fkey(full_name),
           messages(id)
         `)
         .order('created_at', { ascending: false });
@@ -75,7 +132,9 @@ const ChatReview = () => {
         user_id: session.user_id,
         user_name: (session.users as any)?.full_name || 'Unknown User',
         message_count: session.messages?.length || 0,
-        is_active: session.is_active
+        is_active: session.is_active,
+        agent_id: session.agent_id,
+        agent_name: session.agent?.full_name ?? null
       })) || [];
 
       setSessions(sessionsWithCounts);
@@ -91,7 +150,7 @@ const ChatReview = () => {
     try {
       const { data, error } = await supabase
         .from('messages')
-        .select('*')
+        .select('*, author:admin_users!messages_author_id_fkey(full_name)')
         .eq('session_id', sessionId)
         .order('created_at', { ascending: true });
 
@@ -106,12 +165,135 @@ const ChatReview = () => {
 
   const openSession = (session: ChatSession) => {
     setSelectedSession(session);
+    setReply('');
     fetchMessages(session.id);
   };
 
+  const closeSession = () => {
+    if (isTyping) {
+      setIsTyping(false);
+      updateTypingStatus(false);
+    }
+    setSelectedSession(null);
+    setTypingUsers([]);
+    if (searchParams.has('session')) {
+      setSearchParams({});
+    }
+  };
+
+  const handleTakeOver = async () => {
+    if (!selectedSession || !adminData) return;
+
+    setHandoffPending(true);
+    try {
+      await takeOverSession(selectedSession.id, adminData.id);
+      setSelectedSession({ ...selectedSession, agent_id: adminData.id, agent_name: adminData.full_name });
+      fetchSessions();
+      toast({
+        title: "You joined the chat",
+        description: "The assistant is paused until you hand the conversation back",
+      });
+    } catch (error) {
+      console.error('Error taking over session:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to take over the chat",
+        variant: "destructive",
+      });
+    } finally {
+      setHandoffPending(false);
+    }
+  };
+
+  const handleHandBack = async () => {
+    if (!selectedSession) return;
+
+    setHandoffPending(true);
+    try {
+      await handBackSession(selectedSession.id);
+      setSelectedSession({ ...selectedSession, agent_id: null, agent_name: null });
+      fetchSessions();
+      toast({
+        title: "Chat handed back",
+        description: "The assistant will answer the customer again",
+      });
+    } catch (error) {
+      console.error('Error handing back session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to hand the chat back to the assistant",
+        variant: "destructive",
+      });
+    } finally {
+      setHandoffPending(false);
+    }
+  };
+
+  const handleReplyChange = (value: string) => {
+    setReply(value);
+    const hasText = value.trim().length > 0;
+    if (hasText !== isTyping) {
+      setIsTyping(hasText);
+      updateTypingStatus(hasText);
+    }
+  };
+
+  const handleSendReply = async () => {
+    if (!selectedSession || !adminData || !reply.trim()) return;
+
+    try {
+      await sendAgentMessage(selectedSession.id, adminData.id, reply.trim());
+      setReply('');
+      setIsTyping(false);
+      updateTypingStatus(false);
+    } catch (error) {
+      console.error('Error sending agent message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Messages that arrive over realtime have no joined author, so fall back to what is known
+  const getAgentName = (message: Message) =>
+    message.author?.full_name
+      ?? (message.author_id && message.author_id === adminData?.id ? adminData.full_name : selectedSession?.agent_name)
+      ?? 'Agent';
+
+  const getSpeaker = (message: Message) => {
+    if (message.message_type === 'user') return selectedSession?.user_name || 'Customer';
+    if (message.message_type === 'agent') return `Agent: ${getAgentName(message)}`;
+    if (message.message_type === 'system') return 'System';
+    return 'Assistant';
+  };
+
+  const exportTranscript = () => {
+    if (!selectedSession) return;
+
+    const csv = [
+      ['Time', 'Speaker', 'Message'],
+      ...messages.map(message => [
+        format(new Date(message.created_at), 'yyyy-MM-dd HH:mm:ss'),
+        getSpeaker(message),
+        message.content,
+      ])
+    ].map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `chat-transcript-${selectedSession.id.substring(0, 8)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getMessageTypeColor = (type: string) => {
     if (type === 'user') return 'bg-blue-100 text-blue-800';
     if (type === 'system') return 'bg-gray-100 text-gray-800';
+    if (type === 'agent') return 'bg-purple-100 text-purple-800';
     return 'bg-green-100 text-green-800';
   };
 
@@ -238,17 +420,27 @@ const ChatReview = () => {
                     </div>
                   </TableCell>
                   <TableCell>
-                    <Badge variant={session.is_active ? "default" : "secondary"}>
-                      {session.is_active ? "Active" : "Inactive"}
-                    </Badge>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={session.is_active ? "default" : "secondary"}>
+                        {session.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                      {session.agent_id && (
+                        <Badge variant="outline" className="bg-purple-100 text-purple-800">
+                          <Headset className="h-3 w-3 mr-1" />
+                          {session.agent_name || 'Agent'}
+                        </Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
-                    <Dialog>
+                    <Dialog
+                      open={selectedSession?.id === session.id}
+                      onOpenChange={(open) => open ? openSession(session) : closeSession()}
+                    >
                       <DialogTrigger asChild>
                         <Button 
                           variant="outline" 
                           size="sm"
-                          onClick={() => openSession(session)}
                         >
                           <Eye className="h-4 w-4 mr-2" />
                           Review
@@ -259,19 +451,50 @@ const ChatReview = () => {
                           <DialogTitle>
                             Chat Session: {selectedSession?.title}
                           </DialogTitle>
-                          <div className="text-sm text-muted-foreground">
-                            User: {selectedSession?.user_name} • 
-                            Created: {selectedSession && format(new Date(selectedSession.created_at), 'MMM dd, yyyy HH:mm')}
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="text-sm text-muted-foreground">
+                              User: {selectedSession?.user_name} • 
+                              Created: {selectedSession && format(new Date(selectedSession.created_at), 'MMM dd, yyyy HH:mm')}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button size="sm" variant="outline" onClick={exportTranscript} disabled={messages.length === 0}>
+                                <Download className="h-4 w-4 mr-2" />
+                                Export
+                              </Button>
+                              {canChat && selectedSession && !selectedSession.agent_id && (
+                                <Button size="sm" onClick={handleTakeOver} disabled={handoffPending || !adminData}>
+                                  <Headset className="h-4 w-4 mr-2" />
+                                  Take over chat
+                                </Button>
+                              )}
+                              {canChat && selectedSession?.agent_id && selectedSession.agent_id === adminData?.id && (
+                                <Button size="sm" variant="outline" onClick={handleHandBack} disabled={handoffPending}>
+                                  <Bot className="h-4 w-4 mr-2" />
+                                  Hand back to assistant
+                                </Button>
+                              )}
+                              {selectedSession?.agent_id && selectedSession.agent_id !== adminData?.id && (
+                                <Badge variant="outline" className="bg-purple-100 text-purple-800">
+                                  Handled by {selectedSession.agent_name || 'another agent'}
+                                </Badge>
+                              )}
+                            </div>
                           </div>
                         </DialogHeader>
-                        <ScrollArea className="h-[60vh] w-full">
+                        <ScrollArea className="h-[55vh] w-full">
                           {messagesLoading ? (
                             <div className="flex items-center justify-center h-32">
                               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
                             </div>
                           ) : (
                             <div className="space-y-4 p-4">
-                              {messages.map((message, index) => (
+                              {messages.map((message) => message.message_type === 'system' ? (
+                                <div key={message.id} className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                                  <Info className="h-3 w-3" />
+                                  <span className="italic">{message.content}</span>
+                                  <span>• {format(new Date(message.created_at), 'HH:mm:ss')}</span>
+                                </div>
+                              ) : (
                                 <div key={message.id} className="flex gap-4">
                                   <div className="flex-shrink-0">
                                     <Badge 
@@ -279,7 +502,7 @@ const ChatReview = () => {
                                       className={getMessageTypeColor(message.message_type)}
                                     >
                                       {message.message_type === 'user' ? 'User' : 
-                                       message.message_type === 'system' ? 'System' : 'AI'}
+                                       message.message_type === 'agent' ? 'Agent' : 'AI'}
                                     </Badge>
                                   </div>
                                   <div className="flex-1 space-y-2">
@@ -287,6 +510,7 @@ const ChatReview = () => {
                                       <p className="text-sm">{message.content}</p>
                                     </div>
                                     <div className="text-xs text-muted-foreground">
+                                      {message.message_type === 'agent' && `${getAgentName(message)} • `}
                                       {format(new Date(message.created_at), 'HH:mm:ss')}
                                     </div>
                                   </div>
@@ -297,9 +521,32 @@ const ChatReview = () => {
                                   No messages in this session
                                 </p>
                               )}
+                              <TypingIndicator
+                                typingUsers={typingUsers.filter(typingUser => typingUser.user_id !== user?.id)}
+                                label="Customer is typing..."
+                              />
+                              <div ref={messagesEndRef} />
                             </div>
                           )}
                         </ScrollArea>
+                        {canChat && selectedSession?.agent_id && selectedSession.agent_id === adminData?.id && (
+                          <div className="flex gap-2">
+                            <Input
+                              value={reply}
+                              onChange={(e) => handleReplyChange(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault();
+                                  handleSendReply();
+                                }
+                              }}
+                              placeholder="Reply to the customer..."
+                            />
+                            <Button onClick={handleSendReply} disabled={!reply.trim()}>
+                              <Send className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </DialogContent>
                     </Dialog>
                   </TableCell>
@@ -0,0 +1,319 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Gauge, ThumbsUp, Target, MessageSquare } from 'lucide-react';
+
+interface CalibrationBand {
+  response_source: string;
+  confidence_band: number;
+  answers: number;
+  rated: number;
+  helpful: number;
+  avg_confidence: number;
+}
+
+interface ItemCalibration {
+  qa_item_id: string;
+  question: string;
+  answers: number;
+  helpful_count: number;
+  unhelpful_count: number;
+  avg_confidence: number;
+}
+
+const PERIODS: Record<string, { label: string; days: number | null }> = {
+  '7': { label: 'Last 7 days', days: 7 },
+  '30': { label: 'Last 30 days', days: 30 },
+  '90': { label: 'Last 90 days', days: 90 },
+  all: { label: 'All time', days: null },
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  qa_database: 'FAQ answer',
+  ai: 'Generated answer',
+  intent_action: 'Intent action',
+};
+
+// Items need a few ratings before their helpful rate says anything
+const MIN_ITEM_RATINGS = 3;
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+
+// Stated confidence minus the helpful rate; positive means the assistant is overconfident
+const calibrationGap = (confidence: number, helpfulRate: number | null) =>
+  helpfulRate === null ? null : confidence - helpfulRate;
+
+const gapBadge = (gap: number | null) => {
+  if (gap === null) return <span className="text-muted-foreground">–</span>;
+  const points = Math.round(gap * 100);
+  if (Math.abs(points) <= 10) {
+    return <Badge className="bg-green-100 text-green-800">{points > 0 ? '+' : ''}{points} pts</Badge>;
+  }
+  return points > 0
+    ? <Badge className="bg-red-100 text-red-800">+{points} pts overconfident</Badge>
+    : <Badge className="bg-yellow-100 text-yellow-800">{points} pts underconfident</Badge>;
+};
+
+const ConfidenceReport = () => {
+  const [bands, setBands] = useState<CalibrationBand[]>([]);
+  const [items, setItems] = useState<ItemCalibration[]>([]);
+  const [period, setPeriod] = useState('30');
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [period]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const days = PERIODS[period].days;
+      const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+
+      const [calibrationResult, feedbackResult] = await Promise.all([
+        supabase.rpc('confidence_calibration', { since }),
+        supabase.rpc('qa_item_feedback', { since }),
+      ]);
+
+      if (calibrationResult.error) throw calibrationResult.error;
+      if (feedbackResult.error) throw feedbackResult.error;
+
+      const ratedItems = (feedbackResult.data || [])
+        .filter(item => item.helpful_count + item.unhelpful_count >= MIN_ITEM_RATINGS);
+
+      const { data: questions, error: questionsError } = ratedItems.length > 0
+        ? await supabase.from('qa_items').select('id, question').in('id', ratedItems.map(item => item.qa_item_id))
+        : { data: [], error: null };
+
+      if (questionsError) throw questionsError;
+
+      const questionById = new Map((questions || []).map(item => [item.id, item.question]));
+      setBands(calibrationResult.data || []);
+      setItems(ratedItems.map(item => ({
+        ...item,
+        question: questionById.get(item.qa_item_id) ?? 'Deleted FAQ item',
+      })));
+    } catch (error) {
+      console.error('Error fetching confidence report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load confidence report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredBands = bands.filter(band => sourceFilter === 'all' || band.response_source === sourceFilter);
+
+  // Combine sources into one row per confidence band
+  const bandRows = Array.from({ length: 10 }, (_, index) => {
+    const inBand = filteredBands.filter(band => band.confidence_band === index);
+    const answers = inBand.reduce((sum, band) => sum + band.answers, 0);
+    const rated = inBand.reduce((sum, band) => sum + band.rated, 0);
+    const helpful = inBand.reduce((sum, band) => sum + band.helpful, 0);
+    const avgConfidence = answers > 0
+      ? inBand.reduce((sum, band) => sum + band.avg_confidence * band.answers, 0) / answers
+      : 0;
+    return { band: index, answers, rated, helpful, avgConfidence, helpfulRate: rated > 0 ? helpful / rated : null };
+  }).filter(row => row.answers > 0).reverse();
+
+  const totalAnswers = bandRows.reduce((sum, row) => sum + row.answers, 0);
+  const totalRated = bandRows.reduce((sum, row) => sum + row.rated, 0);
+  const totalHelpful = bandRows.reduce((sum, row) => sum + row.helpful, 0);
+  const avgConfidence = totalAnswers > 0
+    ? bandRows.reduce((sum, row) => sum + row.avgConfidence * row.answers, 0) / totalAnswers
+    : 0;
+  // Expected calibration error: the rating-weighted distance between confidence and helpfulness
+  const calibrationError = totalRated > 0
+    ? bandRows.reduce((sum, row) => sum + (row.helpfulRate === null ? 0 : Math.abs(row.avgConfidence - row.helpfulRate) * row.rated), 0) / totalRated
+    : null;
+
+  const itemRows = items
+    .map(item => {
+      const helpfulRate = item.helpful_count / (item.helpful_count + item.unhelpful_count);
+      return { ...item, helpfulRate, gap: calibrationGap(item.avg_confidence, helpfulRate) ?? 0 };
+    })
+    .sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap));
+
+  const sources = Array.from(new Set(bands.map(band => band.response_source)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Confidence Report</h1>
+          <p className="text-muted-foreground">How the assistant's stated confidence compares to customer ratings</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={sourceFilter} onValueChange={setSourceFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All answers</SelectItem>
+              {sources.map(source => (
+                <SelectItem key={source} value={source}>{SOURCE_LABELS[source] ?? source}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERIODS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Rated Answers</CardTitle>
+                <MessageSquare className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{totalRated}</div>
+                <p className="text-xs text-muted-foreground">of {totalAnswers} answers</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Average Confidence</CardTitle>
+                <Gauge className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(totalAnswers > 0 ? avgConfidence : null)}</div>
+                <p className="text-xs text-muted-foreground">Stated by the assistant</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Helpful Rate</CardTitle>
+                <ThumbsUp className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(totalRated > 0 ? totalHelpful / totalRated : null)}</div>
+                <p className="text-xs text-muted-foreground">Of rated answers</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Calibration Error</CardTitle>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(calibrationError)}</div>
+                <p className="text-xs text-muted-foreground">Average gap between confidence and ratings</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Confidence Bands</CardTitle>
+              <CardDescription>
+                In a well calibrated band the helpful rate is close to the average confidence.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead>Answers</TableHead>
+                    <TableHead>Rated</TableHead>
+                    <TableHead>Avg. Confidence</TableHead>
+                    <TableHead>Helpful Rate</TableHead>
+                    <TableHead>Gap</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bandRows.map(row => (
+                    <TableRow key={row.band}>
+                      <TableCell className="font-medium">
+                        {(row.band / 10).toFixed(1)} – {((row.band + 1) / 10).toFixed(1)}
+                      </TableCell>
+                      <TableCell>{row.answers}</TableCell>
+                      <TableCell>{row.rated}</TableCell>
+                      <TableCell>{formatPercent(row.avgConfidence)}</TableCell>
+                      <TableCell>{formatPercent(row.helpfulRate)}</TableCell>
+                      <TableCell>{gapBadge(calibrationGap(row.avgConfidence, row.helpfulRate))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {bandRows.length === 0 && (
+                <p className="text-muted-foreground text-center py-4">No answers in this period</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>FAQ Items</CardTitle>
+              <CardDescription>
+                Answers based on each FAQ item, with at least {MIN_ITEM_RATINGS} ratings, largest gap first. Ratings also feed back into the confidence of future answers from the same item.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Answers</TableHead>
+                    <TableHead>Ratings</TableHead>
+                    <TableHead>Avg. Confidence</TableHead>
+                    <TableHead>Helpful Rate</TableHead>
+                    <TableHead>Gap</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {itemRows.map(item => (
+                    <TableRow key={item.qa_item_id}>
+                      <TableCell className="max-w-md truncate font-medium">{item.question}</TableCell>
+                      <TableCell>{item.answers}</TableCell>
+                      <TableCell>
+                        <span className="text-green-700">{item.helpful_count}</span>
+                        {' / '}
+                        <span className="text-red-700">{item.unhelpful_count}</span>
+                      </TableCell>
+                      <TableCell>{formatPercent(item.avg_confidence)}</TableCell>
+                      <TableCell>{formatPercent(item.helpfulRate)}</TableCell>
+                      <TableCell>{gapBadge(item.gap)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {itemRows.length === 0 && (
+                <p className="text-muted-foreground text-center py-4">Not enough ratings yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConfidenceReport;
@@ -0,0 +1,438 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Eye,
+  FileText,
+  HelpCircle,
+  Mail,
+  MessageSquare,
+  Package,
+  Phone,
+  ShoppingCart,
+  Star,
+  ThumbsDown,
+  ThumbsUp,
+  Upload,
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+interface Customer {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  phone_number: string | null;
+  created_at: string | null;
+  last_seen: string | null;
+  is_active: boolean | null;
+}
+
+type TimelineKind = 'chat' | 'order' | 'inquiry' | 'escalation' | 'file' | 'rating' | 'activity';
+
+interface TimelineEntry {
+  id: string;
+  kind: TimelineKind;
+  at: string;
+  title: string;
+  body?: string | null;
+  status?: string | null;
+  icon: typeof MessageSquare;
+  sessionId?: string | null;
+  escalationId?: string;
+  storagePath?: string;
+}
+
+const KIND_LABELS: Record<TimelineKind, string> = {
+  chat: 'Chats',
+  order: 'Orders',
+  inquiry: 'Order inquiries',
+  escalation: 'Escalations',
+  file: 'Files',
+  rating: 'Ratings',
+  activity: 'Other activity',
+};
+
+const metadataValue = (metadata: Json | null, key: string): Json | undefined => {
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    return metadata[key];
+  }
+  return undefined;
+};
+
+const formatStatus = (status: string | null) => (status || 'unknown').replace('_', ' ');
+
+const CustomerProfile = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [kindFilter, setKindFilter] = useState<string>('all');
+  const [loading, setLoading] = useState(true);
+  const [orderCount, setOrderCount] = useState(0);
+  const navigate = useNavigate();
+  const { hasPermission } = useAdminAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userId) fetchProfile(userId);
+  }, [userId]);
+
+  const fetchProfile = async (id: string) => {
+    setLoading(true);
+    try {
+      const [
+        customerResult,
+        sessionsResult,
+        ordersResult,
+        inquiriesResult,
+        escalationsResult,
+        filesResult,
+        surveysResult,
+        interactionsResult,
+      ] = await Promise.all([
+        supabase.from('users').select('id, email, full_name, phone_number, created_at, last_seen, is_active').eq('id', id).maybeSingle(),
+        supabase.from('chat_sessions').select('id, title, created_at, is_active, messages(id)').eq('user_id', id),
+        supabase.from('orders').select('id, order_number, scooter_model, quantity, total_amount, status, order_date, actual_delivery').eq('user_id', id),
+        supabase.from('order_inquiries').select('id, inquiry_type, description, status, created_at, resolved_at, session_id, orders (order_number)').eq('user_id', id),
+        supabase.from('escalated_queries').select('id, original_question, status, priority, created_at, resolved_at, session_id').eq('user_id', id),
+        supabase.from('file_uploads').select('id, file_name, file_size, file_type, storage_path, upload_status, created_at, session_id').eq('user_id', id),
+        supabase.from('escalation_surveys').select('id, escalation_id, rating, comment, reopened, created_at').eq('user_id', id),
+        supabase.from('user_interactions').select('id, interaction_type, metadata, session_id, created_at, qa_items (question)').eq('user_id', id),
+      ]);
+
+      if (customerResult.error) throw customerResult.error;
+      setCustomer(customerResult.data);
+
+      const timeline: TimelineEntry[] = [];
+
+      for (const session of sessionsResult.data || []) {
+        timeline.push({
+          id: `chat-${session.id}`,
+          kind: 'chat',
+          at: session.created_at || '',
+          title: `Started a chat: ${session.title || 'Untitled Chat'}`,
+          body: `${session.messages?.length || 0} messages`,
+          status: session.is_active ? 'active' : 'ended',
+          icon: MessageSquare,
+          sessionId: session.id,
+        });
+      }
+
+      for (const order of ordersResult.data || []) {
+        timeline.push({
+          id: `order-${order.id}`,
+          kind: 'order',
+          at: order.order_date || '',
+          title: `Ordered ${order.quantity && order.quantity > 1 ? `${order.quantity} × ` : ''}${order.scooter_model} (#${order.order_number})`,
+          body: order.total_amount != null ? `$${Number(order.total_amount).toFixed(2)}` : null,
+          status: order.status,
+          icon: ShoppingCart,
+        });
+        if (order.actual_delivery) {
+          timeline.push({
+            id: `delivery-${order.id}`,
+            kind: 'order',
+            at: order.actual_delivery,
+            title: `Order #${order.order_number} delivered`,
+            icon: Package,
+          });
+        }
+      }
+
+      for (const inquiry of inquiriesResult.data || []) {
+        timeline.push({
+          id: `inquiry-${inquiry.id}`,
+          kind: 'inquiry',
+          at: inquiry.created_at || '',
+          title: `Order inquiry: ${inquiry.inquiry_type}${inquiry.orders?.order_number ? ` (#${inquiry.orders.order_number})` : ''}`,
+          body: inquiry.description,
+          status: inquiry.status,
+          icon: HelpCircle,
+          sessionId: inquiry.session_id,
+        });
+      }
+
+      for (const escalation of escalationsResult.data || []) {
+        timeline.push({
+          id: `escalation-${escalation.id}`,
+          kind: 'escalation',
+          at: escalation.created_at || '',
+          title: `Escalated to support (${escalation.priority} priority)`,
+          body: escalation.original_question,
+          status: escalation.status,
+          icon: AlertTriangle,
+          sessionId: escalation.session_id,
+          escalationId: escalation.id,
+        });
+      }
+
+      for (const file of filesResult.data || []) {
+        timeline.push({
+          id: `file-${file.id}`,
+          kind: 'file',
+          at: file.created_at,
+          title: `Uploaded ${file.file_name}`,
+          body: `${file.file_type} • ${(file.file_size / 1024).toFixed(0)} KB`,
+          status: file.upload_status === 'completed' ? null : file.upload_status,
+          icon: Upload,
+          sessionId: file.session_id,
+          storagePath: file.upload_status === 'completed' ? file.storage_path : undefined,
+        });
+      }
+
+      for (const survey of surveysResult.data || []) {
+        timeline.push({
+          id: `survey-${survey.id}`,
+          kind: 'rating',
+          at: survey.created_at || '',
+          title: `Rated an escalation resolution ${survey.rating}/5${survey.reopened ? ' and reopened it' : ''}`,
+          body: survey.comment,
+          icon: Star,
+          escalationId: survey.escalation_id,
+        });
+      }
+
+      // Answer ratings are stored as interactions that reference the rated message
+      const interactions = interactionsResult.data || [];
+      const ratedMessageIds = interactions
+        .filter(item => metadataValue(item.metadata, 'action_type') === 'rating')
+        .map(item => metadataValue(item.metadata, 'message_id'))
+        .filter((messageId): messageId is string => typeof messageId === 'string');
+      const { data: ratedMessages } = ratedMessageIds.length
+        ? await supabase.from('messages').select('id, session_id, content').in('id', ratedMessageIds)
+        : { data: [] };
+      const messagesById = new Map((ratedMessages || []).map(message => [message.id, message]));
+
+      for (const interaction of interactions) {
+        if (metadataValue(interaction.metadata, 'action_type') === 'rating') {
+          const helpful = metadataValue(interaction.metadata, 'is_helpful') === true;
+          const message = messagesById.get(metadataValue(interaction.metadata, 'message_id') as string);
+          timeline.push({
+            id: `interaction-${interaction.id}`,
+            kind: 'rating',
+            at: interaction.created_at || '',
+            title: `Rated an answer ${helpful ? 'helpful' : 'not helpful'}`,
+            body: message?.content ? message.content.slice(0, 200) : null,
+            icon: helpful ? ThumbsUp : ThumbsDown,
+            sessionId: message?.session_id ?? interaction.session_id,
+          });
+          continue;
+        }
+
+        timeline.push({
+          id: `interaction-${interaction.id}`,
+          kind: 'activity',
+          at: interaction.created_at || '',
+          title: interaction.interaction_type === 'faq_view'
+            ? 'Viewed an FAQ'
+            : formatStatus(interaction.interaction_type).replace(/^\w/, (c) => c.toUpperCase()),
+          body: interaction.qa_items?.question ?? null,
+          icon: interaction.interaction_type === 'faq_view' ? Eye : FileText,
+          sessionId: interaction.session_id,
+        });
+      }
+
+      timeline.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+      setEntries(timeline);
+      setOrderCount(ordersResult.data?.length || 0);
+    } catch (error) {
+      console.error('Error fetching customer profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customer profile",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openFile = async (storagePath: string) => {
+    const { data, error } = await supabase.storage.from('chat-files').createSignedUrl(storagePath, 60);
+    if (error || !data) {
+      console.error('Error opening file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open file",
+        variant: "destructive",
+      });
+      return;
+    }
+    window.open(data.signedUrl, '_blank', 'noopener');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-4">
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <p className="text-muted-foreground">Customer not found</p>
+      </div>
+    );
+  }
+
+  const count = (kind: TimelineKind) => entries.filter(entry => entry.kind === kind).length;
+  const openEscalations = entries.filter(entry =>
+    entry.kind === 'escalation' && entry.status !== 'resolved' && entry.status !== 'closed'
+  ).length;
+  const filteredEntries = kindFilter === 'all' ? entries : entries.filter(entry => entry.kind === kindFilter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">{customer.full_name || 'No name'}</h1>
+          <p className="text-muted-foreground">Customer profile and activity</p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {customer.email && (
+              <div className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                {customer.email}
+              </div>
+            )}
+            {customer.phone_number && (
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                {customer.phone_number}
+              </div>
+            )}
+            <p>
+              <span className="text-muted-foreground">Joined:</span>{' '}
+              {customer.created_at ? format(new Date(customer.created_at), 'MMM dd, yyyy') : 'Unknown'}
+            </p>
+            <p>
+              <span className="text-muted-foreground">Last seen:</span>{' '}
+              {customer.last_seen ? format(new Date(customer.last_seen), 'MMM dd, yyyy HH:mm') : 'Never'}
+            </p>
+            <Badge variant={customer.is_active === false ? 'destructive' : 'default'}>
+              {customer.is_active === false ? 'Inactive' : 'Active'}
+            </Badge>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Chats / Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{count('chat')} / {orderCount}</div>
+            <p className="text-xs text-muted-foreground">{count('inquiry')} order inquiries</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Escalations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{count('escalation')}</div>
+            <p className="text-xs text-muted-foreground">{openEscalations} open</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Timeline ({filteredEntries.length})</CardTitle>
+          <Select value={kindFilter} onValueChange={setKindFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everything</SelectItem>
+              {(Object.keys(KIND_LABELS) as TimelineKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {KIND_LABELS[kind]} ({count(kind)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {filteredEntries.map((entry) => {
+              const Icon = entry.icon;
+              return (
+                <li key={entry.id} className="ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+                    <Icon className="h-3 w-3" />
+                  </span>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {entry.title}
+                        {entry.status && (
+                          <Badge variant="outline" className="ml-2 capitalize">{formatStatus(entry.status)}</Badge>
+                        )}
+                      </p>
+                      {entry.body && <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">{entry.body}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {entry.at ? format(new Date(entry.at), 'MMM dd, yyyy HH:mm') : 'Unknown date'}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      {entry.storagePath && (
+                        <Button size="sm" variant="outline" onClick={() => openFile(entry.storagePath!)}>
+                          Open file
+                        </Button>
+                      )}
+                      {entry.escalationId && hasPermission('escalations.manage') && (
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/admin/escalated?escalation=${entry.escalationId}`)}>
+                          View escalation
+                        </Button>
+                      )}
+                      {entry.sessionId && hasPermission('chats.manage') && (
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/admin/chat-review?session=${entry.sessionId}`)}>
+                          <MessageSquare className="h-3 w-3 mr-1" />
+                          Open chat
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+            {filteredEntries.length === 0 && (
+              <li className="ml-6 text-sm text-muted-foreground">No activity recorded</li>
+            )}
+          </ol>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerProfile;
@@ -3,10 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { MessageSquare, HelpCircle, Users, TrendingUp } from 'lucide-react';
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
+  const { hasPermission } = useAdminAuth();
   const [stats, setStats] = useState({
     totalUsers: 0,
     totalQuestions: 0,
@@ -89,13 +91,13 @@ const AdminDashboard = () => {
           const getClickHandler = () => {
             switch (card.title) {
               case 'Total Users':
-                return () => navigate('/admin/users');
+                return hasPermission('users.manage') ? () => navigate('/admin/users') : undefined;
               case 'FAQ Items':
-                return () => navigate('/admin/faq');
+                return hasPermission('faq.manage') ? () => navigate('/admin/faq') : undefined;
               case 'Escalated Queries':
-                return () => navigate('/admin/escalated');
+                return hasPermission('escalations.manage') ? () => navigate('/admin/escalated') : undefined;
               case 'Chat Sessions':
-                return () => navigate('/admin/chat-review');
+                return hasPermission('chats.manage') ? () => navigate('/admin/chat-review') : undefined;
               default:
                 return undefined;
             }
@@ -135,34 +137,42 @@ const AdminDashboard = () => {
             <CardTitle>Quick Actions</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2">
-            <Button 
-              variant="ghost" 
-              className="w-full justify-start p-2 h-auto"
-              onClick={() => navigate('/admin/faq')}
-            >
-              Manage FAQ Items
-            </Button>
-            <Button 
-              variant="ghost" 
-              className="w-full justify-start p-2 h-auto"
-              onClick={() => navigate('/admin/escalated')}
-            >
-              Review Escalated Queries
-            </Button>
-            <Button 
-              variant="ghost" 
-              className="w-full justify-start p-2 h-auto"
-              onClick={() => navigate('/admin/chat-review')}
-            >
-              Review Chat Sessions
-            </Button>
-            <Button 
-              variant="ghost" 
-              className="w-full justify-start p-2 h-auto"
-              onClick={() => navigate('/admin/analytics')}
-            >
-              View Analytics
-            </Button>
+            {hasPermission('faq.manage') && (
+              <Button 
+                variant="ghost" 
+                className="w-full justify-start p-2 h-auto"
+                onClick={() => navigate('/admin/faq')}
+              >
+                Manage FAQ Items
+              </Button>
+            )}
+            {hasPermission('escalations.manage') && (
+              <Button 
+                variant="ghost" 
+                className="w-full justify-start p-2 h-auto"
+                onClick={() => navigate('/admin/escalated')}
+              >
+                Review Escalated Queries
+              </Button>
+            )}
+            {hasPermission('chats.manage') && (
+              <Button 
+                variant="ghost" 
+                className="w-full justify-start p-2 h-auto"
+                onClick={() => navigate('/admin/chat-review')}
+              >
+                Review Chat Sessions
+              </Button>
+            )}
+            {hasPermission('analytics.view') && (
+              <Button 
+                variant="ghost" 
+                className="w-full justify-start p-2 h-auto"
+                onClick={() => navigate('/admin/analytics')}
+              >
+                View Analytics
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,352 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  reviewDeletionRequest,
+  type DataDeletionRequest,
+  type DataRequestEvent,
+  type DeletionDecision,
+} from '@/lib/customerData';
+import { UserX } from 'lucide-react';
+import { format } from 'date-fns';
+
+const STATUS_FILTERS = ['all', 'pending', 'approved', 'completed', 'rejected', 'cancelled'];
+
+const EVENT_LABELS: Record<string, string> = {
+  exported: 'Data exported',
+  deletion_requested: 'Deletion requested',
+  deletion_cancelled: 'Request cancelled',
+  deletion_approved: 'Request approved',
+  deletion_rejected: 'Request rejected',
+  deletion_completed: 'Account deleted',
+  deletion_failed: 'Deletion failed',
+};
+
+const getStatusVariant = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'destructive';
+    case 'approved':
+      return 'default';
+    case 'completed':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+// Table counts from erase_customer_data, e.g. "chat sessions: 3, messages: 41"
+const formatSummary = (summary: DataDeletionRequest['summary']) => {
+  if (!summary || typeof summary !== 'object' || Array.isArray(summary)) return '';
+  return Object.entries(summary)
+    .map(([table, count]) => `${table.replace(/_/g, ' ')}: ${count}`)
+    .join(', ');
+};
+
+const DataRequests = () => {
+  const [requests, setRequests] = useState<DataDeletionRequest[]>([]);
+  const [events, setEvents] = useState<DataRequestEvent[]>([]);
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [selectedRequest, setSelectedRequest] = useState<DataDeletionRequest | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [reviewing, setReviewing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([fetchRequests(), fetchEvents()]).finally(() => setLoading(false));
+  }, []);
+
+  // Notifications link here with ?request=<id>
+  useEffect(() => {
+    const requestParam = searchParams.get('request');
+    const request = requests.find(item => item.id === requestParam);
+    if (request && !selectedRequest) {
+      openReview(request);
+    }
+  }, [requests, searchParams]);
+
+  const fetchRequests = async () => {
+    const { data, error } = await supabase
+      .from('data_deletion_requests')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching deletion requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load deletion requests",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRequests(data || []);
+  };
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from('data_request_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching data request events:', error);
+      return;
+    }
+    setEvents(data || []);
+  };
+
+  const openReview = (request: DataDeletionRequest) => {
+    setSelectedRequest(request);
+    setReviewNotes(request.review_notes || '');
+  };
+
+  const handleReview = async (decision: DeletionDecision) => {
+    if (!selectedRequest) return;
+
+    setReviewing(true);
+    try {
+      await reviewDeletionRequest(selectedRequest.id, decision, reviewNotes);
+      toast({
+        title: "Success",
+        description: decision === 'approve'
+          ? `${selectedRequest.email || 'The customer'}'s account and data were deleted`
+          : 'The request was rejected',
+      });
+      setSelectedRequest(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to review the request',
+        variant: "destructive",
+      });
+    } finally {
+      setReviewing(false);
+      fetchRequests();
+      fetchEvents();
+    }
+  };
+
+  const emailForUser = (userId: string) =>
+    requests.find(request => request.user_id === userId)?.email || userId;
+
+  const filteredRequests = statusFilter === 'all'
+    ? requests
+    : requests.filter(request => request.status === statusFilter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <UserX className="h-8 w-8" />
+          Data Requests
+        </h1>
+        <p className="text-muted-foreground">Review account deletion requests and the history of data exports</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Deletion Requests</CardTitle>
+            <CardDescription>
+              Approving a request permanently deletes the customer's account, conversations and files.
+              Their orders are kept without personal details.
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTERS.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">
+                  {status === 'all' ? 'All requests' : status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {filteredRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No deletion requests</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRequests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.email || request.user_id}</TableCell>
+                    <TableCell>{format(new Date(request.created_at), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell className="max-w-xs truncate">{request.reason || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(request.status)} className="capitalize">
+                        {request.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => openReview(request)}>
+                        {['pending', 'approved'].includes(request.status) ? 'Review' : 'View'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>Exports and deletion decisions, kept after an account is deleted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No activity yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell>{format(new Date(event.created_at), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>{EVENT_LABELS[event.event_type] || event.event_type}</TableCell>
+                    <TableCell>{emailForUser(event.user_id)}</TableCell>
+                    <TableCell className="capitalize">{event.actor_type}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedRequest} onOpenChange={(open) => !open && setSelectedRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deletion Request</DialogTitle>
+          </DialogHeader>
+          {selectedRequest && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Customer</p>
+                  <p className="font-medium">{selectedRequest.email || selectedRequest.user_id}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Requested</p>
+                  <p className="font-medium">{format(new Date(selectedRequest.created_at), 'MMM dd, yyyy HH:mm')}</p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-muted-foreground">Reason</p>
+                  <p>{selectedRequest.reason || 'No reason given'}</p>
+                </div>
+                {selectedRequest.completed_at && (
+                  <div className="col-span-2">
+                    <p className="text-muted-foreground">
+                      Deleted {format(new Date(selectedRequest.completed_at), 'MMM dd, yyyy HH:mm')}
+                    </p>
+                    <p>{formatSummary(selectedRequest.summary)}</p>
+                  </div>
+                )}
+              </div>
+
+              {['pending', 'approved'].includes(selectedRequest.status) ? (
+                <>
+                  {selectedRequest.status === 'approved' && (
+                    <p className="text-sm text-destructive">
+                      This request was approved but the deletion did not finish. Approve it again to retry.
+                    </p>
+                  )}
+                  <div>
+                    <Label htmlFor="review-notes">Notes</Label>
+                    <Textarea
+                      id="review-notes"
+                      value={reviewNotes}
+                      onChange={(e) => setReviewNotes(e.target.value)}
+                      placeholder="Why this request was approved or rejected"
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    {selectedRequest.status === 'pending' && (
+                      <Button variant="outline" onClick={() => handleReview('reject')} disabled={reviewing}>
+                        Reject
+                      </Button>
+                    )}
+                    <Button variant="destructive" onClick={() => handleReview('approve')} disabled={reviewing}>
+                      {reviewing ? 'Deleting...' : 'Approve & Delete Data'}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                selectedRequest.review_notes && (
+                  <div className="text-sm">
+                    <p className="text-muted-foreground">Review notes</p>
+                    <p>{selectedRequest.review_notes}</p>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DataRequests;
@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { runRetentionNow, type RetentionRun } from '@/lib/dataRetention';
+import { Archive, Play, Save } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RetentionPolicy {
+  target_table: string;
+  action: string;
+  retain_days: number;
+  is_enabled: boolean;
+  updated_at: string | null;
+}
+
+interface RetentionPreview {
+  target_table: string;
+  is_enabled: boolean;
+  cutoff: string;
+  affected_rows: number;
+  storage_objects: number;
+}
+
+const POLICY_DESCRIPTIONS: Record<string, { title: string; description: string }> = {
+  chat_sessions: {
+    title: 'Closed chat sessions',
+    description: 'Detaches closed sessions from the customer, clears their title and summary, and redacts every message in them. Their uploaded files are deleted.',
+  },
+  file_uploads: {
+    title: 'Uploaded files',
+    description: 'Deletes uploaded files from storage together with their records.',
+  },
+  messages: {
+    title: 'Chat messages',
+    description: 'Deletes messages from every conversation. Files attached to them are deleted too.',
+  },
+  typing_status: {
+    title: 'Typing indicators',
+    description: 'Deletes typing indicators left behind by old conversations.',
+  },
+};
+
+const formatResults = (results: RetentionRun['results']) => {
+  if (!results || typeof results !== 'object' || Array.isArray(results)) return '';
+  const entries = Object.entries(results);
+  if (entries.length === 0) return 'No policies enabled';
+  return entries
+    .map(([table, count]) => `${POLICY_DESCRIPTIONS[table]?.title ?? table}: ${count}`)
+    .join(', ');
+};
+
+const DataRetention = () => {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [previews, setPreviews] = useState<Record<string, RetentionPreview>>({});
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+  const [savingTable, setSavingTable] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { adminData } = useAdminAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([fetchPolicies(), fetchPreview(), fetchRuns()]).finally(() => setLoading(false));
+  }, []);
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from('retention_policies')
+      .select('target_table, action, retain_days, is_enabled, updated_at')
+      .order('target_table');
+
+    if (error) {
+      console.error('Error fetching retention policies:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load retention policies",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPolicies(data || []);
+  };
+
+  const fetchPreview = async () => {
+    const { data, error } = await supabase.rpc('preview_retention_policies');
+
+    if (error) {
+      console.error('Error previewing retention policies:', error);
+      return;
+    }
+    setPreviews(Object.fromEntries((data || []).map(preview => [preview.target_table, preview])));
+  };
+
+  const fetchRuns = async () => {
+    const { data, error } = await supabase
+      .from('retention_runs')
+      .select('*')
+      .order('finished_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching retention runs:', error);
+      return;
+    }
+    setRuns(data || []);
+  };
+
+  const updatePolicy = (targetTable: string, changes: Partial<RetentionPolicy>) => {
+    setPolicies(prev => prev.map(policy => policy.target_table === targetTable ? { ...policy, ...changes } : policy));
+  };
+
+  const savePolicy = async (policy: RetentionPolicy) => {
+    if (policy.retain_days < 1) {
+      toast({
+        title: "Invalid retention period",
+        description: "Keep data for at least one day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingTable(policy.target_table);
+    try {
+      const { error } = await supabase
+        .from('retention_policies')
+        .update({
+          retain_days: policy.retain_days,
+          is_enabled: policy.is_enabled,
+          updated_by: adminData?.id,
+        })
+        .eq('target_table', policy.target_table);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Retention policy updated successfully",
+      });
+      fetchPolicies();
+      fetchPreview();
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save retention policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTable(null);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const run = await runRetentionNow();
+      toast({
+        title: run.error ? "Run finished with errors" : "Success",
+        description: run.error || formatResults(run.results),
+        variant: run.error ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to run retention policies',
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+      fetchPreview();
+      fetchRuns();
+    }
+  };
+
+  // What the next run will purge, counting only policies saved as enabled
+  const enabledPreviews = Object.values(previews).filter(preview => preview.is_enabled);
+  const nextRunRows = enabledPreviews.reduce((sum, preview) => sum + preview.affected_rows, 0);
+  const nextRunFiles = enabledPreviews.reduce((sum, preview) => sum + preview.storage_objects, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Archive className="h-8 w-8" />
+            Data Retention
+          </h1>
+          <p className="text-muted-foreground">
+            Choose how long chat data is kept. Enabled policies run every night at 03:30 UTC.
+          </p>
+        </div>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={running}>
+              <Play className="h-4 w-4 mr-2" />
+              {running ? 'Running...' : 'Run Now'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Run retention policies now?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This permanently purges {nextRunRows} rows and {nextRunFiles} files under the saved policies.
+                It cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRunNow}>Run Now</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Next Run</CardTitle>
+          <CardDescription>
+            {nextRunRows === 0 && nextRunFiles === 0
+              ? 'Nothing is due to be purged.'
+              : `${nextRunRows} rows and ${nextRunFiles} files are due to be purged.`}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {policies.map((policy) => {
+          const preview = previews[policy.target_table];
+          return (
+            <Card key={policy.target_table}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    {POLICY_DESCRIPTIONS[policy.target_table]?.title ?? policy.target_table}
+                    <Badge variant="outline" className="capitalize">{policy.action}</Badge>
+                  </span>
+                  <Switch
+                    checked={policy.is_enabled}
+                    onCheckedChange={(checked) => updatePolicy(policy.target_table, { is_enabled: checked })}
+                  />
+                </CardTitle>
+                <CardDescription>{POLICY_DESCRIPTIONS[policy.target_table]?.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`${policy.target_table}-days`}>Keep for (days)</Label>
+                  <Input
+                    id={`${policy.target_table}-days`}
+                    type="number"
+                    min="1"
+                    value={policy.retain_days}
+                    disabled={!policy.is_enabled}
+                    onChange={(e) => updatePolicy(policy.target_table, { retain_days: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                {preview && (
+                  <p className="text-sm text-muted-foreground">
+                    {preview.is_enabled ? 'Next run: ' : 'If enabled: '}
+                    {preview.affected_rows} {preview.affected_rows === 1 ? 'row' : 'rows'}
+                    {preview.storage_objects > 0 && ` and ${preview.storage_objects} files`} from before{' '}
+                    {format(new Date(preview.cutoff), 'MMM dd, yyyy')}
+                  </p>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">
+                    {policy.updated_at && `Last updated ${new Date(policy.updated_at).toLocaleString()}`}
+                  </span>
+                  <Button onClick={() => savePolicy(policy)} disabled={savingTable === policy.target_table}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {savingTable === policy.target_table ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No runs yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Finished</TableHead>
+                  <TableHead>Started by</TableHead>
+                  <TableHead>Purged</TableHead>
+                  <TableHead>Files removed</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>{format(new Date(run.finished_at), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>{run.triggered_by ? 'Admin' : 'Schedule'}</TableCell>
+                    <TableCell>{formatResults(run.results)}</TableCell>
+                    <TableCell>{run.storage_objects_removed}</TableCell>
+                    <TableCell>
+                      {run.error ? (
+                        <Badge variant="destructive" title={run.error}>Failed</Badge>
+                      ) : (
+                        <Badge variant="secondary">Completed</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DataRetention;
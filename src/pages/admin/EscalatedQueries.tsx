@@ -1,10 +1,28 @@
 import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Badge } from '@/components/ui/badge';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { takeOverSession } from '@/lib/agentHandoff';
+import {
+  ESCALATION_CATEGORY_LABELS,
+  ESCALATION_PRIORITIES,
+  assignEscalation,
+  claimEscalation,
+  comparePriority,
+  isEscalationOpen,
+  isSlaBreached,
+  setEscalationCategory,
+  setEscalationPriority,
+  type EscalationCategory,
+  type EscalationPriority,
+} from '@/lib/escalations';
+import { EscalationThread } from '@/components/EscalationThread';
+import { EscalationTimeline } from '@/components/EscalationTimeline';
 import { 
   Dialog, 
   DialogContent, 
@@ -27,7 +45,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { MessageSquare, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { MessageSquare, Clock, CheckCircle, AlertCircle, Headset, UserCheck, Timer, Star, RotateCcw } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface EscalatedQuery {
@@ -41,36 +59,77 @@ interface EscalatedQuery {
   resolved_at: string;
   user_id: string;
   session_id: string;
-  assigned_to: string;
+  assigned_to: string | null;
+  priority: EscalationPriority;
+  category: EscalationCategory;
+  sla_due_at: string | null;
   users?: { full_name: string; email: string; };
+  assignee?: { full_name: string } | null;
+  escalation_replies?: { sender: string; read_at: string | null }[];
+  escalation_surveys?: { id: string; rating: number; comment: string | null; reopened: boolean; created_at: string }[];
+  reopen_count: number;
 }
 
+interface AdminOption {
+  id: string;
+  full_name: string;
+}
+
+const UNASSIGNED = 'unassigned';
+
+type SortOrder = 'newest' | 'oldest' | 'priority' | 'sla';
+
 const EscalatedQueries = () => {
   const [queries, setQueries] = useState<EscalatedQuery[]>([]);
   const [selectedQuery, setSelectedQuery] = useState<EscalatedQuery | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [queueFilter, setQueueFilter] = useState<string>('all');
+  const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [admins, setAdmins] = useState<AdminOption[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  const { adminData, hasPermission } = useAdminAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
   const [resolutionNotes, setResolutionNotes] = useState('');
 
   useEffect(() => {
     fetchQueries();
+    fetchAdmins();
   }, []);
 
+  // Notifications link here with ?escalation=<id>
+  useEffect(() => {
+    const escalationParam = searchParams.get('escalation');
+    const query = queries.find(item => item.id === escalationParam);
+    if (query && !dialogOpen) {
+      setSelectedQuery(query);
+      setResolutionNotes(query.resolution_notes || '');
+      setDialogOpen(true);
+    }
+  }, [queries, searchParams]);
+
   const fetchQueries = async () => {
     try {
       const { data, error } = await supabase
         .from('escalated_queries')
         .select(`
           *,
-          users (full_name, email)
+          users (full_name, email),
+          assignee:admin_users!escalated_queries_assigned_to_fkey (full_name),
+          escalation_replies (sender, read_at),
+          escalation_surveys (id, rating, comment, reopened, created_at)
         `)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setQueries(data || []);
+      // Keep the open dialog in step with the refreshed row
+      setSelectedQuery(prev => prev ? (data || []).find(item => item.id === prev.id) || prev : prev);
     } catch (error) {
       console.error('Error fetching escalated queries:', error);
       toast({
@@ -83,6 +142,89 @@ const EscalatedQueries = () => {
     }
   };
 
+  const fetchAdmins = async () => {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('id, full_name')
+      .eq('is_active', true)
+      .order('full_name');
+
+    if (error) {
+      console.error('Error fetching admins:', error);
+      return;
+    }
+    setAdmins(data || []);
+  };
+
+  // Refreshes the list and the open dialog after an assignment or priority change
+  const refreshAfterUpdate = async (description: string) => {
+    toast({
+      title: "Success",
+      description,
+    });
+    await fetchQueries();
+  };
+
+  const claimQuery = async (query: EscalatedQuery) => {
+    if (!adminData) return;
+
+    try {
+      await claimEscalation(query.id, adminData.id);
+      await refreshAfterUpdate("Query added to your queue");
+    } catch (error) {
+      console.error('Error claiming query:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to claim query",
+        variant: "destructive",
+      });
+      fetchQueries();
+    }
+  };
+
+  const assignQuery = async (query: EscalatedQuery, value: string) => {
+    const adminId = value === UNASSIGNED ? null : value;
+    try {
+      await assignEscalation(query.id, query.status, adminId);
+      await refreshAfterUpdate(adminId ? "Query assigned" : "Query unassigned");
+    } catch (error) {
+      console.error('Error assigning query:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign query",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changePriority = async (query: EscalatedQuery, priority: EscalationPriority) => {
+    try {
+      await setEscalationPriority(query.id, priority);
+      await refreshAfterUpdate("Priority updated");
+    } catch (error) {
+      console.error('Error updating priority:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update priority",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeCategory = async (query: EscalatedQuery, category: EscalationCategory) => {
+    try {
+      await setEscalationCategory(query.id, category);
+      await refreshAfterUpdate("Category updated");
+    } catch (error) {
+      console.error('Error updating category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update category",
+        variant: "destructive",
+      });
+    }
+  };
+
   const updateQueryStatus = async (queryId: string, status: string, notes?: string) => {
     try {
       const updateData: any = { status };
@@ -90,6 +232,7 @@ const EscalatedQueries = () => {
       if (status === 'resolved') {
         updateData.resolved_at = new Date().toISOString();
         updateData.resolution_notes = notes;
+        updateData.resolved_by = adminData?.id;
       }
 
       await supabase
@@ -116,6 +259,31 @@ const EscalatedQueries = () => {
     }
   };
 
+  // Takes over the customer's chat and continues the conversation in Chat Review
+  const joinLiveChat = async (query: EscalatedQuery) => {
+    if (!adminData || !query.session_id) return;
+
+    try {
+      await takeOverSession(query.session_id, adminData.id);
+
+      if (query.status === 'pending') {
+        await supabase
+          .from('escalated_queries')
+          .update({ status: 'in_progress', assigned_to: adminData.id })
+          .eq('id', query.id);
+      }
+
+      navigate(`/admin/chat-review?session=${query.session_id}`);
+    } catch (error) {
+      console.error('Error joining live chat:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join the chat",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -129,7 +297,7 @@ const EscalatedQueries = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string): BadgeProps['variant'] => {
     switch (status) {
       case 'pending':
         return 'destructive';
@@ -142,9 +310,66 @@ const EscalatedQueries = () => {
     }
   };
 
-  const filteredQueries = queries.filter(query => 
-    statusFilter === 'all' || query.status === statusFilter
-  );
+  const getPriorityColor = (priority: EscalationPriority) => {
+    switch (priority) {
+      case 'urgent':
+        return 'destructive';
+      case 'high':
+        return 'default';
+      case 'medium':
+        return 'secondary';
+      default:
+        return 'outline';
+    }
+  };
+
+  const renderSla = (query: EscalatedQuery) => {
+    if (!query.sla_due_at || !isEscalationOpen(query.status)) {
+      return <span className="text-muted-foreground">—</span>;
+    }
+    const breached = isSlaBreached(query);
+    return (
+      <div className={`flex items-center gap-1 text-sm ${breached ? 'text-destructive font-medium' : ''}`}>
+        <Timer className="h-3 w-3" />
+        {breached
+          ? `Overdue ${formatDistanceToNow(new Date(query.sla_due_at))}`
+          : `Due ${formatDistanceToNow(new Date(query.sla_due_at), { addSuffix: true })}`}
+      </div>
+    );
+  };
+
+  const countUnreadReplies = (query: EscalatedQuery) =>
+    query.escalation_replies?.filter(reply => reply.sender === 'customer' && !reply.read_at).length || 0;
+
+  const compareQueries = (a: EscalatedQuery, b: EscalatedQuery) => {
+    const byCreated = new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    switch (sortOrder) {
+      case 'oldest':
+        return -byCreated;
+      case 'priority':
+        return comparePriority(a.priority, b.priority) || byCreated;
+      case 'sla': {
+        // Open queries by deadline first, then everything else newest first
+        const aDue = isEscalationOpen(a.status) && a.sla_due_at ? new Date(a.sla_due_at).getTime() : Infinity;
+        const bDue = isEscalationOpen(b.status) && b.sla_due_at ? new Date(b.sla_due_at).getTime() : Infinity;
+        return aDue === bDue ? byCreated : aDue - bDue;
+      }
+      default:
+        return byCreated;
+    }
+  };
+
+  const filteredQueries = queries.filter(query => {
+    if (statusFilter !== 'all' && query.status !== statusFilter) return false;
+    if (priorityFilter !== 'all' && query.priority !== priorityFilter) return false;
+    if (categoryFilter !== 'all' && query.category !== categoryFilter) return false;
+    if (queueFilter === 'mine') return query.assigned_to === adminData?.id && isEscalationOpen(query.status);
+    if (queueFilter === UNASSIGNED) return !query.assigned_to && isEscalationOpen(query.status);
+    return true;
+  }).sort(compareQueries);
+
+  const myOpenCount = queries.filter(query => query.assigned_to === adminData?.id && isEscalationOpen(query.status)).length;
+  const myOverdueCount = queries.filter(query => query.assigned_to === adminData?.id && isSlaBreached(query)).length;
 
   if (loading) {
     return (
@@ -163,7 +388,17 @@ const EscalatedQueries = () => {
         </div>
       </div>
 
-      <div className="flex gap-4">
+      <div className="flex flex-wrap gap-4 items-center">
+        <Select value={queueFilter} onValueChange={setQueueFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Queries</SelectItem>
+            <SelectItem value="mine">My Queue ({myOpenCount})</SelectItem>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
         <Select value={statusFilter} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-48">
             <SelectValue />
@@ -171,10 +406,53 @@ const EscalatedQueries = () => {
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="assigned">Assigned</SelectItem>
             <SelectItem value="in_progress">In Progress</SelectItem>
             <SelectItem value="resolved">Resolved</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            {ESCALATION_PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority} className="capitalize">
+                {priority}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Categories</SelectItem>
+            {Object.entries(ESCALATION_CATEGORY_LABELS).map(([category, label]) => (
+              <SelectItem key={category} value={category}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest First</SelectItem>
+            <SelectItem value="oldest">Oldest First</SelectItem>
+            <SelectItem value="priority">Highest Priority</SelectItem>
+            <SelectItem value="sla">SLA Due Soonest</SelectItem>
+          </SelectContent>
+        </Select>
+        {myOverdueCount > 0 && (
+          <Badge variant="destructive">
+            {myOverdueCount} overdue in your queue
+          </Badge>
+        )}
       </div>
 
       <Card>
@@ -188,14 +466,18 @@ const EscalatedQueries = () => {
                 <TableHead>Customer</TableHead>
                 <TableHead>Question</TableHead>
                 <TableHead>Reason</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Category</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Assignee</TableHead>
+                <TableHead>SLA</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredQueries.map((query) => (
-                <TableRow key={query.id}>
+                <TableRow key={query.id} className={isSlaBreached(query) ? 'bg-destructive/10 hover:bg-destructive/15' : ''}>
                   <TableCell>
                     <div className="space-y-1">
                       <div className="font-medium">{query.users?.full_name || 'Unknown User'}</div>
@@ -203,117 +485,286 @@ const EscalatedQueries = () => {
                     </div>
                   </TableCell>
                   <TableCell className="max-w-md">
-                    <div className="truncate">{query.original_question}</div>
+                    <div className="flex items-center gap-2">
+                      <div className="truncate">{query.original_question}</div>
+                      {query.reopen_count > 0 && (
+                        <Badge variant="outline" className="flex-shrink-0 flex items-center gap-1">
+                          <RotateCcw className="h-3 w-3" />
+                          Reopened
+                        </Badge>
+                      )}
+                      {countUnreadReplies(query) > 0 && (
+                        <Badge variant="destructive" className="flex-shrink-0">
+                          {countUnreadReplies(query)} new
+                        </Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell className="max-w-sm">
                     <div className="truncate">{query.escalation_reason}</div>
                   </TableCell>
                   <TableCell>
-                    <Badge variant={getStatusColor(query.status) as any} className="flex items-center gap-1 w-fit">
+                    <Badge variant={getPriorityColor(query.priority)} className="capitalize">
+                      {query.priority}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {ESCALATION_CATEGORY_LABELS[query.category]}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusColor(query.status)} className="flex items-center gap-1 w-fit">
                       {getStatusIcon(query.status)}
                       {query.status.replace('_', ' ')}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    {query.assignee?.full_name || <span className="text-muted-foreground">Unassigned</span>}
+                  </TableCell>
+                  <TableCell>
+                    {renderSla(query)}
+                  </TableCell>
                   <TableCell>
                     {formatDistanceToNow(new Date(query.created_at), { addSuffix: true })}
                   </TableCell>
                   <TableCell>
-                    <Dialog open={dialogOpen && selectedQuery?.id === query.id} onOpenChange={(open) => {
-                      setDialogOpen(open);
-                      if (open) {
-                        setSelectedQuery(query);
-                        setResolutionNotes(query.resolution_notes || '');
-                      } else {
-                        setSelectedQuery(null);
-                        setResolutionNotes('');
-                      }
-                    }}>
-                      <DialogTrigger asChild>
-                        <Button variant="outline" size="sm">
-                          View Details
+                    <div className="flex gap-2">
+                      {!query.assigned_to && query.status === 'pending' && (
+                        <Button variant="outline" size="sm" onClick={() => claimQuery(query)}>
+                          <UserCheck className="h-4 w-4 mr-1" />
+                          Claim
                         </Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-                        <DialogHeader>
-                          <DialogTitle>Escalated Query Details</DialogTitle>
-                        </DialogHeader>
-                        {selectedQuery && (
-                          <div className="space-y-4">
-                            <div>
-                              <h3 className="font-semibold mb-2">Customer Information</h3>
-                              <p><strong>Name:</strong> {selectedQuery.users?.full_name || 'Unknown'}</p>
-                              <p><strong>Email:</strong> {selectedQuery.users?.email}</p>
-                            </div>
-                            
-                            <div>
-                              <h3 className="font-semibold mb-2">Original Question</h3>
-                              <p className="bg-muted p-3 rounded">{selectedQuery.original_question}</p>
-                            </div>
-                            
-                            <div>
-                              <h3 className="font-semibold mb-2">Escalation Reason</h3>
-                              <p className="bg-muted p-3 rounded">{selectedQuery.escalation_reason}</p>
-                            </div>
-                            
-                            {selectedQuery.customer_feedback && (
+                      )}
+                      <Dialog open={dialogOpen && selectedQuery?.id === query.id} onOpenChange={(open) => {
+                        setDialogOpen(open);
+                        if (open) {
+                          setSelectedQuery(query);
+                          setResolutionNotes(query.resolution_notes || '');
+                        } else {
+                          setSelectedQuery(null);
+                          setResolutionNotes('');
+                          // Replies read in the dialog no longer count as new
+                          fetchQueries();
+                        }
+                      }}>
+                        <DialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            View Details
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Escalated Query Details</DialogTitle>
+                          </DialogHeader>
+                          {selectedQuery && (
+                            <div className="space-y-4">
+                              <div>
+                                <h3 className="font-semibold mb-2">Customer Information</h3>
+                                <p><strong>Name:</strong> {selectedQuery.users?.full_name || 'Unknown'}</p>
+                                <p><strong>Email:</strong> {selectedQuery.users?.email}</p>
+                                {hasPermission('users.manage') && (
+                                  <Button
+                                    variant="link"
+                                    className="h-auto p-0"
+                                    onClick={() => navigate(`/admin/users/${selectedQuery.user_id}`)}
+                                  >
+                                    View customer profile
+                                  </Button>
+                                )}
+                              </div>
+                              
                               <div>
-                                <h3 className="font-semibold mb-2">Customer Feedback</h3>
-                                <p className="bg-muted p-3 rounded">{selectedQuery.customer_feedback}</p>
+                                <h3 className="font-semibold mb-2">Original Question</h3>
+                                <p className="bg-muted p-3 rounded">{selectedQuery.original_question}</p>
                               </div>
-                            )}
-                            
-                            <div>
-                              <h3 className="font-semibold mb-2">Current Status</h3>
-                              <Badge variant={getStatusColor(selectedQuery.status) as any} className="flex items-center gap-1 w-fit">
-                                {getStatusIcon(selectedQuery.status)}
-                                {selectedQuery.status.replace('_', ' ')}
-                              </Badge>
-                            </div>
-                            
-                            {selectedQuery.status !== 'resolved' && (
-                              <div className="space-y-4">
-                                <div>
-                                  <label className="block text-sm font-medium mb-2">Resolution Notes</label>
-                                  <Textarea
-                                    value={resolutionNotes}
-                                    onChange={(e) => setResolutionNotes(e.target.value)}
-                                    rows={4}
-                                    placeholder="Enter resolution notes..."
+                              
+                              <div>
+                                <h3 className="font-semibold mb-2">Escalation Reason</h3>
+                                <p className="bg-muted p-3 rounded">{selectedQuery.escalation_reason}</p>
+                              </div>
+                              
+                              <div>
+                                <h3 className="font-semibold mb-2">Conversation</h3>
+                                {adminData && (
+                                  <EscalationThread
+                                    escalationId={selectedQuery.id}
+                                    viewer="agent"
+                                    authorId={adminData.id}
+                                    disabled={selectedQuery.status === 'closed'}
                                   />
+                                )}
+                              </div>
+
+                              {selectedQuery.escalation_surveys && selectedQuery.escalation_surveys.length > 0 && (
+                                <div>
+                                  <h3 className="font-semibold mb-2">Customer Satisfaction</h3>
+                                  <div className="space-y-2">
+                                    {selectedQuery.escalation_surveys.map((survey) => (
+                                      <div key={survey.id} className="bg-muted p-3 rounded space-y-1">
+                                        <div className="flex items-center gap-2">
+                                          <div className="flex">
+                                            {[1, 2, 3, 4, 5].map((value) => (
+                                              <Star
+                                                key={value}
+                                                className={`h-4 w-4 ${value <= survey.rating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                                              />
+                                            ))}
+                                          </div>
+                                          {survey.reopened && <Badge variant="destructive">Reopened</Badge>}
+                                          <span className="text-xs text-muted-foreground">
+                                            {formatDistanceToNow(new Date(survey.created_at), { addSuffix: true })}
+                                          </span>
+                                        </div>
+                                        {survey.comment && <p className="text-sm">{survey.comment}</p>}
+                                      </div>
+                                    ))}
+                                  </div>
                                 </div>
-                                
-                                <div className="flex gap-2">
-                                  <Button
-                                    onClick={() => updateQueryStatus(selectedQuery.id, 'in_progress')}
-                                    variant="outline"
+                              )}
+
+                              {selectedQuery.customer_feedback && (
+                                <div>
+                                  <h3 className="font-semibold mb-2">Customer Feedback</h3>
+                                  <p className="bg-muted p-3 rounded">{selectedQuery.customer_feedback}</p>
+                                </div>
+                              )}
+                              
+                              <div>
+                                <h3 className="font-semibold mb-2">Current Status</h3>
+                                <div className="flex items-center gap-3">
+                                  <Badge variant={getStatusColor(selectedQuery.status)} className="flex items-center gap-1 w-fit">
+                                    {getStatusIcon(selectedQuery.status)}
+                                    {selectedQuery.status.replace('_', ' ')}
+                                  </Badge>
+                                  {renderSla(selectedQuery)}
+                                </div>
+                              </div>
+
+                              <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                  <label className="block text-sm font-medium mb-2">Assigned To</label>
+                                  <Select
+                                    value={selectedQuery.assigned_to || UNASSIGNED}
+                                    onValueChange={(value) => assignQuery(selectedQuery, value)}
+                                    disabled={!isEscalationOpen(selectedQuery.status)}
                                   >
-                                    Mark In Progress
-                                  </Button>
-                                  <Button
-                                    onClick={() => updateQueryStatus(selectedQuery.id, 'resolved', resolutionNotes)}
-                                    disabled={!resolutionNotes.trim()}
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                      {admins.map((admin) => (
+                                        <SelectItem key={admin.id} value={admin.id}>
+                                          {admin.full_name}{admin.id === adminData?.id ? ' (me)' : ''}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium mb-2">Category</label>
+                                  <Select
+                                    value={selectedQuery.category}
+                                    onValueChange={(value) => changeCategory(selectedQuery, value as EscalationCategory)}
                                   >
-                                    Mark Resolved
-                                  </Button>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {Object.entries(ESCALATION_CATEGORY_LABELS).map(([category, label]) => (
+                                        <SelectItem key={category} value={category}>
+                                          {label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium mb-2">Priority</label>
+                                  <Select
+                                    value={selectedQuery.priority}
+                                    onValueChange={(value) => changePriority(selectedQuery, value as EscalationPriority)}
+                                    disabled={!isEscalationOpen(selectedQuery.status)}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {ESCALATION_PRIORITIES.map((priority) => (
+                                        <SelectItem key={priority} value={priority} className="capitalize">
+                                          {priority}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
                               </div>
-                            )}
-                            
-                            {selectedQuery.status === 'resolved' && selectedQuery.resolution_notes && (
+                              
+                              {selectedQuery.status !== 'resolved' && (
+                                <div className="space-y-4">
+                                  <div>
+                                    <label className="block text-sm font-medium mb-2">Resolution Notes</label>
+                                    <Textarea
+                                      value={resolutionNotes}
+                                      onChange={(e) => setResolutionNotes(e.target.value)}
+                                      rows={4}
+                                      placeholder="Enter resolution notes..."
+                                    />
+                                  </div>
+                                  
+                                  <div className="flex gap-2">
+                                    {selectedQuery.session_id && hasPermission('chats.manage') && (
+                                      <Button
+                                        onClick={() => joinLiveChat(selectedQuery)}
+                                        variant="outline"
+                                      >
+                                        <Headset className="h-4 w-4 mr-2" />
+                                        Join Live Chat
+                                      </Button>
+                                    )}
+                                    <Button
+                                      onClick={() => updateQueryStatus(selectedQuery.id, 'in_progress')}
+                                      variant="outline"
+                                    >
+                                      Mark In Progress
+                                    </Button>
+                                    <Button
+                                      onClick={() => updateQueryStatus(selectedQuery.id, 'resolved', resolutionNotes)}
+                                      disabled={!resolutionNotes.trim()}
+                                    >
+                                      Mark Resolved
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
+                              
+                              {selectedQuery.status === 'resolved' && selectedQuery.resolution_notes && (
+                                <div>
+                                  <h3 className="font-semibold mb-2">Resolution Notes</h3>
+                                  <p className="bg-green-50 p-3 rounded border-l-4 border-green-400">
+                                    {selectedQuery.resolution_notes}
+                                  </p>
+                                  <p className="text-sm text-muted-foreground mt-2">
+                                    Resolved {formatDistanceToNow(new Date(selectedQuery.resolved_at), { addSuffix: true })}
+                                  </p>
+                                </div>
+                              )}
+
                               <div>
-                                <h3 className="font-semibold mb-2">Resolution Notes</h3>
-                                <p className="bg-green-50 p-3 rounded border-l-4 border-green-400">
-                                  {selectedQuery.resolution_notes}
-                                </p>
-                                <p className="text-sm text-muted-foreground mt-2">
-                                  Resolved {formatDistanceToNow(new Date(selectedQuery.resolved_at), { addSuffix: true })}
-                                </p>
+                                <h3 className="font-semibold mb-2">History</h3>
+                                {adminData && (
+                                  <EscalationTimeline
+                                    escalationId={selectedQuery.id}
+                                    customerName={selectedQuery.users?.full_name || 'Customer'}
+                                    admins={admins}
+                                    authorId={adminData.id}
+                                  />
+                                )}
                               </div>
-                            )}
-                          </div>
-                        )}
-                      </DialogContent>
-                    </Dialog>
+                            </div>
+                          )}
+                        </DialogContent>
+                      </Dialog>
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -28,7 +28,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Edit, Trash2, Search, Download, Upload } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Download, Upload, RefreshCw } from 'lucide-react';
 
 interface QAItem {
   id: string;
@@ -55,6 +55,7 @@ const FAQManagement = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<QAItem | null>(null);
   const [loading, setLoading] = useState(true);
+  const [reindexing, setReindexing] = useState(false);
   const { toast } = useToast();
 
   const [formData, setFormData] = useState({
@@ -115,19 +116,27 @@ const FAQManagement = () => {
       };
 
       if (editingItem) {
-        await supabase
+        const { error } = await supabase
           .from('qa_items')
           .update(data)
           .eq('id', editingItem.id);
+
+        if (error) throw error;
+        warnIfNotIndexed(await refreshEmbeddings(editingItem.id));
         
         toast({
           title: "Success",
           description: "FAQ item updated successfully",
         });
       } else {
-        await supabase
+        const { data: newItem, error } = await supabase
           .from('qa_items')
-          .insert(data);
+          .insert(data)
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        warnIfNotIndexed(await refreshEmbeddings(newItem.id));
         
         toast({
           title: "Success",
@@ -155,6 +164,43 @@ const FAQManagement = () => {
     }
   };
 
+  // Re-embeds one item (or every stale item when no id is given) for semantic search
+  const refreshEmbeddings = async (qaItemId?: string) => {
+    const { error } = await supabase.functions.invoke('embed-faq', {
+      body: qaItemId ? { qaItemId } : {},
+    });
+
+    if (error) {
+      console.error('Error refreshing FAQ embeddings:', error);
+    }
+    return !error;
+  };
+
+  const warnIfNotIndexed = (indexed: boolean) => {
+    if (!indexed) {
+      toast({
+        title: "Search index not updated",
+        description: "The FAQ item was saved, but the assistant may not find it until the search index is rebuilt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReindex = async () => {
+    setReindexing(true);
+    const indexed = await refreshEmbeddings();
+    setReindexing(false);
+
+    toast(indexed ? {
+      title: "Success",
+      description: "Search index rebuilt successfully",
+    } : {
+      title: "Error",
+      description: "Failed to rebuild search index",
+      variant: "destructive",
+    });
+  };
+
   const handleEdit = (item: QAItem) => {
     setEditingItem(item);
     setFormData({
@@ -232,6 +278,10 @@ const FAQManagement = () => {
           <p className="text-muted-foreground">Manage knowledge base content</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={handleReindex} disabled={reindexing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${reindexing ? 'animate-spin' : ''}`} />
+            Rebuild Search Index
+          </Button>
           <Button variant="outline" onClick={exportData}>
             <Download className="h-4 w-4 mr-2" />
             Export
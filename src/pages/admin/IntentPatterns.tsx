@@ -0,0 +1,592 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_INTENT,
+  INTENT_ACTION_LABELS,
+  detectIntent,
+  matchesIntentPattern,
+  validateIntentPattern,
+  type IntentAction,
+  type IntentMatchType,
+} from '@/lib/intents';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, FlaskConical } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface IntentPattern {
+  id: string;
+  intent: string;
+  pattern: string;
+  match_type: IntentMatchType;
+  confidence_threshold: number;
+  action: IntentAction;
+  description: string | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+interface PastQuery {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+// How many recent user messages are checked against each pattern
+const PAST_QUERY_LIMIT = 500;
+
+const emptyForm = {
+  intent: '',
+  pattern: '',
+  match_type: 'regex' as IntentMatchType,
+  confidence_threshold: 0.5,
+  action: 'faq' as IntentAction,
+  description: '',
+  is_active: true,
+};
+
+const IntentPatterns = () => {
+  const [patterns, setPatterns] = useState<IntentPattern[]>([]);
+  const [pastQueries, setPastQueries] = useState<PastQuery[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPattern, setEditingPattern] = useState<IntentPattern | null>(null);
+  const [viewingPattern, setViewingPattern] = useState<IntentPattern | null>(null);
+  const [testQuery, setTestQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyForm);
+  const { adminData } = useAdminAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPatterns();
+    fetchPastQueries();
+  }, []);
+
+  const fetchPatterns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('intent_patterns')
+        .select('*')
+        .order('sort_order');
+
+      if (error) throw error;
+      setPatterns((data || []).map(pattern => ({
+        ...pattern,
+        match_type: pattern.match_type as IntentMatchType,
+        action: pattern.action as IntentAction,
+        sort_order: pattern.sort_order ?? 0,
+        is_active: pattern.is_active ?? true,
+      })));
+    } catch (error) {
+      console.error('Error fetching intent patterns:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load intent patterns",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPastQueries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, content, created_at')
+        .eq('message_type', 'user')
+        .order('created_at', { ascending: false })
+        .limit(PAST_QUERY_LIMIT);
+
+      if (error) throw error;
+      setPastQueries(data || []);
+    } catch (error) {
+      console.error('Error fetching past queries:', error);
+    }
+  };
+
+  // Past queries each pattern would have matched on its own, regardless of order
+  const matchesByPattern = useMemo(() => {
+    const matches = new Map<string, PastQuery[]>();
+    for (const pattern of patterns) {
+      matches.set(pattern.id, pastQueries.filter(query => matchesIntentPattern(query.content, pattern)));
+    }
+    return matches;
+  }, [patterns, pastQueries]);
+
+  const activePatterns = patterns.filter(pattern => pattern.is_active);
+  const testMatch = testQuery.trim() ? detectIntent(testQuery, activePatterns) : undefined;
+  const formError = validateIntentPattern(formData.pattern, formData.match_type);
+  const formPreview = testQuery.trim() && !formError
+    ? matchesIntentPattern(testQuery, formData)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formError) return;
+
+    const values = {
+      intent: formData.intent.trim(),
+      pattern: formData.pattern,
+      match_type: formData.match_type,
+      confidence_threshold: formData.confidence_threshold,
+      action: formData.action,
+      description: formData.description || null,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (editingPattern) {
+        const { error } = await supabase
+          .from('intent_patterns')
+          .update(values)
+          .eq('id', editingPattern.id);
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Intent pattern updated successfully",
+        });
+      } else {
+        // New patterns are evaluated last
+        const lastOrder = patterns.length > 0 ? patterns[patterns.length - 1].sort_order : 0;
+        const { error } = await supabase
+          .from('intent_patterns')
+          .insert({ ...values, sort_order: lastOrder + 10, created_by: adminData?.id });
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Intent pattern created successfully",
+        });
+      }
+
+      setDialogOpen(false);
+      setEditingPattern(null);
+      setFormData(emptyForm);
+      fetchPatterns();
+    } catch (error) {
+      console.error('Error saving intent pattern:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save intent pattern",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (pattern: IntentPattern) => {
+    setEditingPattern(pattern);
+    setFormData({
+      intent: pattern.intent,
+      pattern: pattern.pattern,
+      match_type: pattern.match_type,
+      confidence_threshold: Number(pattern.confidence_threshold),
+      action: pattern.action,
+      description: pattern.description || '',
+      is_active: pattern.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this intent pattern?')) return;
+
+    try {
+      const { error } = await supabase.from('intent_patterns').delete().eq('id', id);
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Intent pattern deleted successfully",
+      });
+      fetchPatterns();
+    } catch (error) {
+      console.error('Error deleting intent pattern:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete intent pattern",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Swaps a pattern with its neighbour and renumbers the list so every pattern
+  // keeps a distinct sort order
+  const movePattern = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= patterns.length) return;
+
+    const reordered = [...patterns];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const renumbered = reordered.map((pattern, position) => ({ ...pattern, sort_order: (position + 1) * 10 }));
+    const changed = renumbered.filter(pattern =>
+      pattern.sort_order !== patterns.find(original => original.id === pattern.id)?.sort_order
+    );
+
+    setPatterns(renumbered);
+
+    try {
+      const results = await Promise.all(changed.map(pattern =>
+        supabase
+          .from('intent_patterns')
+          .update({ sort_order: pattern.sort_order })
+          .eq('id', pattern.id)
+      ));
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      console.error('Error updating sort order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder intent patterns",
+        variant: "destructive",
+      });
+      fetchPatterns();
+    }
+  };
+
+  const toggleActive = async (pattern: IntentPattern) => {
+    try {
+      const { error } = await supabase
+        .from('intent_patterns')
+        .update({ is_active: !pattern.is_active })
+        .eq('id', pattern.id);
+      if (error) throw error;
+      fetchPatterns();
+    } catch (error) {
+      console.error('Error updating intent pattern:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Intent Patterns</h1>
+          <p className="text-muted-foreground">Classify customer queries into intents. Patterns are checked top to bottom and the first match wins.</p>
+        </div>
+        <Dialog
+          open={dialogOpen}
+          onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) {
+              setEditingPattern(null);
+              setFormData(emptyForm);
+            }
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Pattern
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingPattern ? 'Edit Intent Pattern' : 'Add New Intent Pattern'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Intent</label>
+                <Input
+                  value={formData.intent}
+                  onChange={(e) => setFormData({ ...formData, intent: e.target.value })}
+                  placeholder="order_status"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Match Type</label>
+                <Select
+                  value={formData.match_type}
+                  onValueChange={(value) => setFormData({ ...formData, match_type: value as IntentMatchType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="regex">Regular expression</SelectItem>
+                    <SelectItem value="keyword">Keywords</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {formData.match_type === 'regex' ? 'Pattern (case-insensitive)' : 'Keywords (comma-separated)'}
+                </label>
+                <Input
+                  value={formData.pattern}
+                  onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                  placeholder={formData.match_type === 'regex' ? '\\b(track|where is)\\b.*\\border\\b' : 'cancel, order'}
+                  className="font-mono"
+                  required
+                />
+                {formData.pattern && formError && (
+                  <p className="text-sm text-destructive mt-1">{formError}</p>
+                )}
+              </div>
+              {formData.match_type === 'keyword' && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Share of keywords required (0-1)</label>
+                  <Input
+                    type="number"
+                    min="0.01"
+                    max="1"
+                    step="0.01"
+                    value={formData.confidence_threshold}
+                    onChange={(e) => setFormData({ ...formData, confidence_threshold: parseFloat(e.target.value) || 0.5 })}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium mb-2">Action</label>
+                <Select
+                  value={formData.action}
+                  onValueChange={(value) => setFormData({ ...formData, action: value as IntentAction })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTENT_ACTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.action === 'order_inquiry' && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    The inquiry is created with the intent name as its type.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Description</label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Test Query</label>
+                <Input
+                  value={testQuery}
+                  onChange={(e) => setTestQuery(e.target.value)}
+                  placeholder="Where is my order?"
+                />
+                {formPreview !== null && (
+                  <p className={`text-sm mt-1 ${formPreview ? 'text-green-600' : 'text-muted-foreground'}`}>
+                    {formPreview ? 'This pattern matches the test query' : 'This pattern does not match the test query'}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="is_active"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+                <label htmlFor="is_active" className="text-sm">Active</label>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!!formError}>
+                  {editingPattern ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Test a Query
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Input
+            value={testQuery}
+            onChange={(e) => setTestQuery(e.target.value)}
+            placeholder="Type a customer question to see which intent it is classified as"
+          />
+          {testQuery.trim() && (
+            <p className="text-sm">
+              Detected intent:{' '}
+              <Badge variant={testMatch ? 'default' : 'secondary'}>
+                {testMatch?.intent ?? DEFAULT_INTENT}
+              </Badge>
+              {testMatch && <span className="text-muted-foreground ml-2">{INTENT_ACTION_LABELS[testMatch.action]}</span>}
+              {!testMatch && <span className="text-muted-foreground ml-2">No active pattern matches</span>}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patterns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Intent</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Past Matches</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {patterns.map((pattern, index) => (
+                <TableRow key={pattern.id} className={testMatch?.id === pattern.id ? 'bg-primary/10' : undefined}>
+                  <TableCell>
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => movePattern(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={index === patterns.length - 1} onClick={() => movePattern(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{pattern.intent}</div>
+                    {pattern.description && (
+                      <div className="text-sm text-muted-foreground">{pattern.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {pattern.match_type === 'keyword'
+                        ? `keywords ≥ ${Math.round(Number(pattern.confidence_threshold) * 100)}%`
+                        : 'regex'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <code className="block truncate text-xs">{pattern.pattern}</code>
+                  </TableCell>
+                  <TableCell>{INTENT_ACTION_LABELS[pattern.action] ?? pattern.action}</TableCell>
+                  <TableCell>
+                    <Button variant="link" className="p-0 h-auto" onClick={() => setViewingPattern(pattern)}>
+                      {matchesByPattern.get(pattern.id)?.length ?? 0} / {pastQueries.length}
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={pattern.is_active ? 'default' : 'secondary'}
+                      className="cursor-pointer"
+                      onClick={() => toggleActive(pattern)}
+                    >
+                      {pattern.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(pattern)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(pattern.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {patterns.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No intent patterns found
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewingPattern} onOpenChange={(open) => !open && setViewingPattern(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Past queries matching "{viewingPattern?.intent}"</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Checked against the {pastQueries.length} most recent customer messages. A query matched by an earlier pattern is classified as that pattern's intent instead.
+          </p>
+          <ScrollArea className="h-96">
+            <div className="space-y-2 pr-4">
+              {(viewingPattern ? matchesByPattern.get(viewingPattern.id) ?? [] : []).map(query => {
+                const winner = detectIntent(query.content, activePatterns);
+                return (
+                  <div key={query.id} className="rounded-lg border p-3">
+                    <p className="text-sm">{query.content}</p>
+                    <div className="flex items-center justify-between mt-1 text-xs text-muted-foreground">
+                      <span>{format(new Date(query.created_at), 'MMM d, yyyy HH:mm')}</span>
+                      {winner && winner.id !== viewingPattern?.id && (
+                        <span>Classified as {winner.intent}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {viewingPattern && (matchesByPattern.get(viewingPattern.id)?.length ?? 0) === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No past queries match this pattern
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default IntentPatterns;
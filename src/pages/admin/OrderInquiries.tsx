@@ -135,6 +135,7 @@ const OrderInquiries = () => {
       case 'issue_report': return 'bg-red-100 text-red-800';
       case 'delivery_inquiry': return 'bg-purple-100 text-purple-800';
       case 'refund_request': return 'bg-orange-100 text-orange-800';
+      case 'order_cancellation': return 'bg-yellow-100 text-yellow-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -218,6 +219,7 @@ const OrderInquiries = () => {
                   <SelectItem value="issue_report">Issue Report</SelectItem>
                   <SelectItem value="delivery_inquiry">Delivery Inquiry</SelectItem>
                   <SelectItem value="refund_request">Refund Request</SelectItem>
+                  <SelectItem value="order_cancellation">Order Cancellation</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -253,7 +255,7 @@ const OrderInquiries = () => {
                   </TableCell>
                   <TableCell>
                     <Badge className={getTypeColor(inquiry.inquiry_type)}>
-                      {inquiry.inquiry_type.replace('_', ' ')}
+                      {inquiry.inquiry_type.replace(/_/g, ' ')}
                     </Badge>
                   </TableCell>
                   <TableCell className="max-w-xs">
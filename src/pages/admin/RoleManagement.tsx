@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_PERMISSION_LABELS,
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  type AdminPermission,
+  type AdminRole,
+} from '@/lib/permissions';
+import { ShieldCheck } from 'lucide-react';
+
+type RolePermission = { role: string; permission: AdminPermission };
+
+// super_admin always has every permission, so only these roles are editable
+const EDITABLE_ROLES: AdminRole[] = ADMIN_ROLES.filter((role) => role !== 'super_admin');
+
+const RoleManagement = () => {
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRolePermissions().finally(() => setLoading(false));
+  }, []);
+
+  const fetchRolePermissions = async () => {
+    const { data, error } = await supabase
+      .from('admin_role_permissions')
+      .select('role, permission');
+
+    if (error) {
+      console.error('Error fetching role permissions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load role permissions",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRolePermissions(data || []);
+  };
+
+  const hasRolePermission = (role: AdminRole, permission: AdminPermission) =>
+    role === 'super_admin' || rolePermissions.some(item => item.role === role && item.permission === permission);
+
+  const togglePermission = async (role: AdminRole, permission: AdminPermission, granted: boolean) => {
+    const cell = `${role}:${permission}`;
+    setSavingCell(cell);
+    try {
+      const { error } = granted
+        ? await supabase.from('admin_role_permissions').insert({ role, permission })
+        : await supabase.from('admin_role_permissions').delete().eq('role', role).eq('permission', permission);
+
+      if (error) throw error;
+
+      setRolePermissions(prev => granted
+        ? [...prev, { role, permission }]
+        : prev.filter(item => !(item.role === role && item.permission === permission)));
+    } catch (error) {
+      console.error('Error updating role permissions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role permissions",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Roles & Permissions</h1>
+        <p className="text-muted-foreground">Choose what each role can see and change. Admins are given a role under Admin Users.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Role Permissions
+          </CardTitle>
+          <CardDescription>
+            Every admin can view the dashboard and chat transcripts. Super admins have every permission and manage roles.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {ADMIN_ROLES.map((role) => (
+                  <TableHead key={role} className="text-center">{ADMIN_ROLE_LABELS[role]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ADMIN_PERMISSIONS.map((permission) => (
+                <TableRow key={permission}>
+                  <TableCell>
+                    <p className="font-medium">{ADMIN_PERMISSION_LABELS[permission].name}</p>
+                    <p className="text-xs text-muted-foreground">{ADMIN_PERMISSION_LABELS[permission].description}</p>
+                  </TableCell>
+                  {ADMIN_ROLES.map((role) => (
+                    <TableCell key={role} className="text-center">
+                      <Checkbox
+                        checked={hasRolePermission(role, permission)}
+                        disabled={!EDITABLE_ROLES.includes(role) || savingCell === `${role}:${permission}`}
+                        onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                        aria-label={`${ADMIN_ROLE_LABELS[role]}: ${ADMIN_PERMISSION_LABELS[permission].name}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RoleManagement;
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { createCustomer } from '@/lib/adminUsers';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -32,7 +34,7 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { Users, UserPlus, Edit, UserX, Search, Mail, Phone, Calendar } from 'lucide-react';
+import { Users, UserPlus, Edit, Eye, UserX, Search, Mail, Phone, Calendar } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface User {
@@ -47,6 +49,7 @@ interface User {
 }
 
 const UserManagement = () => {
+  const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -106,26 +109,16 @@ const UserManagement = () => {
 
   const handleAddUser = async () => {
     try {
-      // First, create the auth user
-      const { data: authData, error: authError } = await supabase.auth.admin.createUser({
-        email: formData.email,
-        password: 'TempPassword123!', // Temporary password - user should change on first login
-        email_confirm: true,
-        user_metadata: {
-          full_name: formData.full_name,
-        },
-      });
-
-      if (authError) throw authError;
+      // Created server-side; the customer sets their own password from the emailed link
+      await createCustomer(formData.email, formData.full_name, formData.phone_number);
 
-      // The user profile will be created automatically via trigger
-      toast.success('User created successfully. Temporary password: TempPassword123!');
+      toast.success(`User created. A sign-in link was sent to ${formData.email}`);
       setAddDialogOpen(false);
       setFormData({ email: '', full_name: '', phone_number: '' });
       fetchUsers();
     } catch (error) {
       console.error('Error creating user:', error);
-      toast.error('Failed to create user');
+      toast.error(error instanceof Error ? error.message : 'Failed to create user');
     }
   };
 
@@ -230,7 +223,9 @@ const UserManagement = () => {
                 <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button onClick={handleAddUser}>Create User</Button>
+                <Button onClick={handleAddUser} disabled={!formData.email || !formData.full_name}>
+                  Create User
+                </Button>
               </div>
             </div>
           </DialogContent>
@@ -343,6 +338,13 @@ const UserManagement = () => {
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/admin/users/${user.id}`)}
+                      >
+                        <Eye className="h-3 w-3" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
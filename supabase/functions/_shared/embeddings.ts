@@ -0,0 +1,133 @@
+// Embedding providers for semantic FAQ search.
+// All providers must produce EMBEDDING_DIMENSIONS-long vectors to fit the
+// `qa_item_embeddings` columns. The default `gte-small` model runs inside the
+// Supabase edge runtime, so FAQ search keeps working without external APIs.
+
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+declare const Supabase: {
+  ai: {
+    Session: new (model: string) => {
+      run(input: string, options: { mean_pool: boolean; normalize: boolean }): Promise<number[]>;
+    };
+  };
+};
+
+export function createGteSmallEmbeddingProvider(): EmbeddingProvider {
+  const session = new Supabase.ai.Session('gte-small');
+
+  return {
+    name: 'gte-small',
+    async embed(texts) {
+      const embeddings: number[][] = [];
+      for (const text of texts) {
+        embeddings.push(await session.run(text, { mean_pool: true, normalize: true }));
+      }
+      return embeddings;
+    },
+  };
+}
+
+export function createOpenAIEmbeddingProvider({ apiKey, baseUrl = 'https://api.openai.com/v1', model = 'text-embedding-3-small' }: { apiKey?: string; baseUrl?: string; model?: string }): EmbeddingProvider {
+  return {
+    name: `openai:${model}`,
+    async embed(texts) {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return data.data.map((entry: { embedding: number[] }) => entry.embedding);
+    },
+  };
+}
+
+// The Ollama model must produce 384-dimensional vectors, e.g. `all-minilm`
+export function createOllamaEmbeddingProvider({ baseUrl = 'http://localhost:11434', model = 'all-minilm' }: { baseUrl?: string; model?: string }): EmbeddingProvider {
+  return {
+    name: `ollama:${model}`,
+    async embed(texts) {
+      const response = await fetch(`${baseUrl}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return data.embeddings;
+    },
+  };
+}
+
+// Deterministic bag-of-words embedding for offline tests. It only captures word
+// overlap, so it should not be used to judge retrieval quality.
+export function createHashingEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'hashing',
+    async embed(texts) {
+      return texts.map(text => {
+        const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+          let hash = 0;
+          for (const char of word) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+          }
+          vector[hash % EMBEDDING_DIMENSIONS] += 1;
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+export function getEmbeddingProviderFromEnv(): EmbeddingProvider {
+  const name = Deno.env.get('EMBEDDING_PROVIDER') || 'gte-small';
+
+  switch (name) {
+    case 'gte-small':
+      return createGteSmallEmbeddingProvider();
+    case 'openai':
+      return createOpenAIEmbeddingProvider({
+        apiKey: Deno.env.get('OPENAI_API_KEY') || undefined,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || undefined,
+        model: Deno.env.get('OPENAI_EMBEDDING_MODEL') || undefined,
+      });
+    case 'ollama':
+      return createOllamaEmbeddingProvider({
+        baseUrl: Deno.env.get('OLLAMA_BASE_URL') || undefined,
+        model: Deno.env.get('OLLAMA_EMBEDDING_MODEL') || undefined,
+      });
+    case 'hashing':
+      return createHashingEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+// pgvector accepts vectors in their text form, e.g. "[0.1,0.2,...]"
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
@@ -0,0 +1,69 @@
+// Request handling shared by the admin and account edge functions: JSON responses,
+// errors with an HTTP status, and the checks on who is calling. The functions use the
+// service role client, so these checks are what keeps each action to its callers.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "./cors.ts";
+
+// Thrown for problems the caller can fix; the message is returned to them as is
+export class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Request errors go back to the caller; anything else is logged and reported as a 500
+export function errorResponse(error: unknown, functionName: string) {
+  if (error instanceof RequestError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+  console.error(`Error in ${functionName}:`, error);
+  return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+}
+
+export function bearerToken(req: Request): string {
+  return req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+}
+
+export async function callerId(supabaseClient: SupabaseClient, req: Request): Promise<string> {
+  const { data: { user } } = await supabaseClient.auth.getUser(bearerToken(req));
+  if (!user) {
+    throw new RequestError(401, 'Sign in to continue');
+  }
+  return user.id;
+}
+
+export async function requireSuperAdmin(supabaseClient: SupabaseClient, req: Request): Promise<string> {
+  const userId = await callerId(supabaseClient, req);
+  const { data: isSuperAdmin } = await supabaseClient.rpc('is_super_admin', { user_id: userId });
+  if (!isSuperAdmin) {
+    throw new RequestError(403, 'Super admin access required');
+  }
+  return userId;
+}
+
+export async function requirePermission(supabaseClient: SupabaseClient, req: Request, permission: string): Promise<string> {
+  const userId = await callerId(supabaseClient, req);
+  const { data: allowed } = await supabaseClient.rpc('has_admin_permission', {
+    user_id: userId,
+    required_permission: permission,
+  });
+  if (!allowed) {
+    throw new RequestError(403, 'You do not have permission to do this');
+  }
+  return userId;
+}
+
+export function requireString(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RequestError(400, `${name} is required`);
+  }
+  return value.trim();
+}
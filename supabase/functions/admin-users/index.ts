@@ -0,0 +1,272 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import { RequestError, errorResponse, jsonResponse, requirePermission, requireString, requireSuperAdmin } from "../_shared/requests.ts";
+
+// Account management that needs the service role key, so it never runs in the browser.
+// Called with `{ action, ... }`:
+//   invite_admin     super admin    Creates a one-time invite link for a new admin
+//   revoke_invite    super admin    Cancels an open invitation
+//   set_admin_active super admin    Activates or deactivates an admin
+//   get_invite       anyone         Shows who an invite link is for
+//   accept_invite    anyone         Redeems an invite link and creates the admin's login
+//   create_customer  users.manage   Creates a customer account and emails them a sign-in link
+
+const ADMIN_ROLES = ['super_admin', 'support_agent', 'content_editor', 'order_manager'];
+const INVITE_TTL_DAYS = 7;
+const MIN_PASSWORD_LENGTH = 8;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const origin = req.headers.get('origin') ?? Deno.env.get('SITE_URL') ?? '';
+
+    switch (body.action) {
+      case 'invite_admin': {
+        const adminId = await requireSuperAdmin(supabaseClient, req);
+        return jsonResponse(await inviteAdmin(supabaseClient, adminId, body, origin));
+      }
+      case 'revoke_invite': {
+        await requireSuperAdmin(supabaseClient, req);
+        const { error } = await supabaseClient
+          .from('admin_invitations')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', requireString(body.invitationId, 'invitationId'))
+          .is('accepted_at', null);
+        if (error) throw error;
+        return jsonResponse({ revoked: true });
+      }
+      case 'set_admin_active': {
+        const adminId = await requireSuperAdmin(supabaseClient, req);
+        return jsonResponse(await setAdminActive(supabaseClient, adminId, body));
+      }
+      case 'get_invite': {
+        const invitation = await findOpenInvitation(supabaseClient, requireString(body.token, 'token'));
+        return jsonResponse({ email: invitation.email, fullName: invitation.full_name, role: invitation.role });
+      }
+      case 'accept_invite':
+        return jsonResponse(await acceptInvite(supabaseClient, body));
+      case 'create_customer': {
+        await requirePermission(supabaseClient, req, 'users.manage');
+        return jsonResponse(await createCustomer(supabaseClient, body, origin));
+      }
+      default:
+        throw new RequestError(400, 'Unknown action');
+    }
+  } catch (error) {
+    return errorResponse(error, 'admin-users');
+  }
+});
+
+async function inviteAdmin(supabaseClient: SupabaseClient, invitedBy: string, body: Record<string, unknown>, origin: string) {
+  const email = normalizeEmail(body.email);
+  const fullName = requireString(body.fullName, 'fullName');
+  const role = requireString(body.role, 'role');
+  if (!ADMIN_ROLES.includes(role)) {
+    throw new RequestError(400, 'Unknown role');
+  }
+
+  const { data: existingAdmin } = await supabaseClient
+    .from('admin_users')
+    .select('id')
+    .ilike('email', escapeLike(email))
+    .maybeSingle();
+  if (existingAdmin) {
+    throw new RequestError(409, 'This person is already an admin');
+  }
+
+  // A new invitation replaces any earlier link sent to the same address
+  const { error: revokeError } = await supabaseClient
+    .from('admin_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .ilike('email', escapeLike(email))
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+  if (revokeError) throw revokeError;
+
+  const token = randomToken();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: invitation, error } = await supabaseClient
+    .from('admin_invitations')
+    .insert({
+      email,
+      full_name: fullName,
+      role,
+      token_hash: await hashToken(token),
+      invited_by: invitedBy,
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return {
+    invitationId: invitation.id,
+    inviteUrl: `${origin}/admin/accept-invite?token=${token}`,
+    expiresAt,
+  };
+}
+
+async function setAdminActive(supabaseClient: SupabaseClient, callerAdminId: string, body: Record<string, unknown>) {
+  const adminId = requireString(body.adminId, 'adminId');
+  if (typeof body.isActive !== 'boolean') {
+    throw new RequestError(400, 'isActive must be true or false');
+  }
+  if (adminId === callerAdminId && !body.isActive) {
+    throw new RequestError(400, 'You cannot deactivate your own account');
+  }
+
+  // protect_admin_users_role still refuses to deactivate the last super admin
+  const { data, error } = await supabaseClient
+    .from('admin_users')
+    .update({ is_active: body.isActive })
+    .eq('id', adminId)
+    .select('id, is_active')
+    .maybeSingle();
+  if (error) throw new RequestError(400, error.message);
+  if (!data) throw new RequestError(404, 'Admin not found');
+
+  return { adminId: data.id, isActive: data.is_active };
+}
+
+async function findOpenInvitation(supabaseClient: SupabaseClient, token: string) {
+  const { data: invitation, error } = await supabaseClient
+    .from('admin_invitations')
+    .select('id, email, full_name, role, expires_at, accepted_at, revoked_at')
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!invitation || invitation.revoked_at) {
+    throw new RequestError(404, 'This invite link is not valid');
+  }
+  if (invitation.accepted_at) {
+    throw new RequestError(410, 'This invite link has already been used');
+  }
+  if (new Date(invitation.expires_at) < new Date()) {
+    throw new RequestError(410, 'This invite link has expired. Ask a super admin for a new one.');
+  }
+  return invitation;
+}
+
+async function acceptInvite(supabaseClient: SupabaseClient, body: Record<string, unknown>) {
+  const token = requireString(body.token, 'token');
+  const password = requireString(body.password, 'password');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new RequestError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const invitation = await findOpenInvitation(supabaseClient, token);
+
+  // Claim the invitation first so the same link cannot be redeemed twice at once
+  const { data: claimed, error: claimError } = await supabaseClient
+    .from('admin_invitations')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', invitation.id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed?.length) {
+    throw new RequestError(410, 'This invite link has already been used');
+  }
+
+  try {
+    const { data: created, error: createError } = await supabaseClient.auth.admin.createUser({
+      email: invitation.email,
+      password,
+      email_confirm: true,
+      user_metadata: { full_name: invitation.full_name },
+    });
+    if (createError) {
+      throw new RequestError(409, 'An account with this email already exists. Ask a super admin to invite a different address.');
+    }
+
+    const { error: adminError } = await supabaseClient
+      .from('admin_users')
+      .insert({
+        id: created.user.id,
+        email: invitation.email,
+        full_name: invitation.full_name,
+        role: invitation.role,
+        is_active: true,
+      });
+    if (adminError) {
+      await supabaseClient.auth.admin.deleteUser(created.user.id);
+      throw adminError;
+    }
+
+    await supabaseClient
+      .from('admin_invitations')
+      .update({ accepted_by: created.user.id })
+      .eq('id', invitation.id);
+
+    return { email: invitation.email };
+  } catch (error) {
+    // Leave the link usable if the account could not be created
+    await supabaseClient
+      .from('admin_invitations')
+      .update({ accepted_at: null })
+      .eq('id', invitation.id);
+    throw error;
+  }
+}
+
+// The customer sets their own password from the emailed link; no password is ever
+// chosen or shown by the admin
+async function createCustomer(supabaseClient: SupabaseClient, body: Record<string, unknown>, origin: string) {
+  const email = normalizeEmail(body.email);
+  const fullName = requireString(body.fullName, 'fullName');
+  const phoneNumber = typeof body.phoneNumber === 'string' && body.phoneNumber.trim() ? body.phoneNumber.trim() : null;
+
+  const { data, error } = await supabaseClient.auth.admin.inviteUserByEmail(email, {
+    data: { full_name: fullName },
+    redirectTo: origin ? `${origin}/auth` : undefined,
+  });
+  if (error) {
+    throw new RequestError(409, error.message);
+  }
+
+  // handle_new_user has created the profile; add what the auth user does not carry
+  if (phoneNumber) {
+    const { error: profileError } = await supabaseClient
+      .from('users')
+      .update({ phone_number: phoneNumber })
+      .eq('id', data.user.id);
+    if (profileError) throw profileError;
+  }
+
+  return { userId: data.user.id };
+}
+
+function normalizeEmail(value: unknown): string {
+  const email = requireString(value, 'email').toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new RequestError(400, 'Enter a valid email address');
+  }
+  return email;
+}
+
+// Emails are matched case-insensitively; `_` and `%` must not act as wildcards
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,169 @@
+// Intent-driven actions. When the detected intent is routed to something other than
+// the FAQ flow, chat-assistant answers with the outcome of the action instead of
+// asking the LLM, so the customer gets live order data or a real ticket.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import type { DetectedIntent } from "./intents.ts";
+import { describeOrder, describeOrderChoice, selectOrders, type Order } from "./orders.ts";
+
+export interface ActionContext {
+  supabaseClient: SupabaseClient;
+  sessionId: string;
+  // Caller identity from the request JWT and their recent orders
+  userId: string | null;
+  orders: Order[];
+  query: string;
+  intent: DetectedIntent;
+}
+
+export interface ActionResult {
+  response: string;
+  // Stored in the message metadata so admins can see what the assistant did
+  action: {
+    type: DetectedIntent['action'];
+    order_id?: string | null;
+    inquiry_id?: string;
+    escalation_id?: string;
+  };
+}
+
+// Returns null when the intent has no action or the action could not be carried out,
+// in which case the query goes through the normal FAQ / LLM flow.
+export async function runIntentAction(context: ActionContext): Promise<ActionResult | null> {
+  try {
+    switch (context.intent.action) {
+      case 'order_lookup':
+        return await lookupOrder(context);
+      case 'order_inquiry':
+        return await openOrderInquiry(context);
+      case 'escalate':
+        return await escalateToHuman(context);
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`Error running ${context.intent.action} action:`, error);
+    return null;
+  }
+}
+
+async function lookupOrder({ userId, orders, query }: ActionContext): Promise<ActionResult | null> {
+  if (!userId) return null;
+
+  if (orders.length === 0) {
+    return {
+      response: "I couldn't find any orders on your account. If you ordered with a different email address, please share your order number and our team will look into it.",
+      action: { type: 'order_lookup', order_id: null },
+    };
+  }
+
+  const selection = selectOrders(query, orders);
+  if (selection.ambiguous) {
+    return {
+      response: describeOrderChoice(selection.orders),
+      action: { type: 'order_lookup', order_id: null },
+    };
+  }
+
+  return {
+    response: selection.orders.map(describeOrder).join('\n\n'),
+    action: { type: 'order_lookup', order_id: selection.orders[0].id },
+  };
+}
+
+async function openOrderInquiry({ supabaseClient, sessionId, userId, orders, query, intent }: ActionContext): Promise<ActionResult | null> {
+  if (!userId) return null;
+
+  // Without a clear order the inquiry is opened unlinked and the customer is asked for the number
+  const selection = selectOrders(query, orders);
+  const order = selection.ambiguous ? null : selection.orders[0] ?? null;
+  const label = intent.intent.replace(/_/g, ' ');
+  const orderText = order ? ` for order ${order.order_number}` : '';
+
+  // Asking again in the same conversation should not open a second inquiry
+  const { data: existing } = await supabaseClient
+    .from('order_inquiries')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('inquiry_type', intent.intent)
+    .in('status', ['open', 'in_progress'])
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return {
+      response: `Your ${label} request${orderText} is already with our team. They will get back to you as soon as possible.`,
+      action: { type: 'order_inquiry', order_id: order?.id ?? null, inquiry_id: existing.id },
+    };
+  }
+
+  const { data: inquiry, error } = await supabaseClient
+    .from('order_inquiries')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      order_id: order?.id ?? null,
+      inquiry_type: intent.intent,
+      description: query,
+      status: 'open'
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return {
+    response: `I've opened a ${label} request${orderText} with our order team. They will review it and get back to you soon.${order ? '' : ' If it concerns a specific order, please reply with the order number.'}`,
+    action: { type: 'order_inquiry', order_id: order?.id ?? null, inquiry_id: inquiry.id },
+  };
+}
+
+async function escalateToHuman({ supabaseClient, sessionId, userId, query }: ActionContext): Promise<ActionResult | null> {
+  if (!userId) return null;
+
+  const { id, created } = await openEscalation(supabaseClient, {
+    userId,
+    sessionId,
+    question: query,
+    reason: 'Customer asked to speak to a human agent',
+  });
+
+  return {
+    response: created
+      ? "I've passed your conversation to our support team. A member of the team will get back to you as soon as possible."
+      : 'Your conversation is already with our support team. A member of the team will reply as soon as possible.',
+    action: { type: 'escalate', escalation_id: id },
+  };
+}
+
+// Opens an escalated_queries ticket for the session unless one is still open
+export async function openEscalation(
+  supabaseClient: SupabaseClient,
+  { userId, sessionId, question, reason }: { userId: string; sessionId: string; question: string; reason: string }
+): Promise<{ id: string; created: boolean }> {
+  const { data: existing } = await supabaseClient
+    .from('escalated_queries')
+    .select('id')
+    .eq('session_id', sessionId)
+    .in('status', ['pending', 'assigned', 'in_progress'])
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return { id: existing.id, created: false };
+  }
+
+  const { data: escalation, error } = await supabaseClient
+    .from('escalated_queries')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      original_question: question,
+      escalation_reason: reason,
+      status: 'pending'
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return { id: escalation.id, created: true };
+}
@@ -0,0 +1,177 @@
+// Files the customer attached to their message. Images are passed to the model inline;
+// text is extracted from PDFs and plain-text files and added to the prompt.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import type { ChatImage } from "./providers.ts";
+
+const BUCKET = 'chat-files';
+const MAX_ATTACHMENTS = 5;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+const MAX_TEXT_BYTES = 1024 * 1024;
+// Extracted text is cut to this many characters per file to keep the prompt bounded
+const MAX_TEXT_CHARS = 6000;
+const EXCERPT_CHARS = 300;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const TEXT_TYPES = ['text/plain', 'text/csv'];
+
+// What was learned from each file; stored in the assistant message metadata
+export interface AttachmentFinding {
+  file_id: string;
+  file_name: string;
+  file_type: string;
+  kind: 'image' | 'text' | 'unsupported' | 'error';
+  pages?: number;
+  extracted_chars?: number;
+  truncated?: boolean;
+  excerpt?: string;
+  note?: string;
+}
+
+export interface Attachments {
+  images: ChatImage[];
+  documents: { fileName: string; text: string }[];
+  findings: AttachmentFinding[];
+}
+
+interface FileUpload {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  storage_path: string;
+}
+
+export const NO_ATTACHMENTS: Attachments = { images: [], documents: [], findings: [] };
+
+/**
+ * Downloads the given uploads from storage and prepares them for the prompt. Only
+ * completed uploads belonging to the caller's session are read. Customers can write
+ * their own `storage_path`, so a path outside `<user>/<session>/` is refused too;
+ * otherwise a customer could point the assistant at someone else's files.
+ */
+export async function loadAttachments(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  sessionId: string,
+  fileIds: string[]
+): Promise<Attachments> {
+  if (fileIds.length === 0) return NO_ATTACHMENTS;
+
+  const { data, error } = await supabaseClient
+    .from('file_uploads')
+    .select('id, file_name, file_type, file_size, storage_path')
+    .in('id', fileIds.slice(0, MAX_ATTACHMENTS))
+    .eq('user_id', userId)
+    .eq('session_id', sessionId)
+    .eq('upload_status', 'completed');
+
+  if (error) {
+    console.error('Error loading file uploads:', error);
+    return NO_ATTACHMENTS;
+  }
+
+  const attachments: Attachments = { images: [], documents: [], findings: [] };
+  for (const file of (data || []) as FileUpload[]) {
+    if (!isInFolder(file.storage_path, `${userId}/${sessionId}/`)) {
+      console.error(`Refusing attachment ${file.id} stored outside the caller's session folder`);
+      attachments.findings.push({
+        file_id: file.id,
+        file_name: file.file_name,
+        file_type: file.file_type,
+        kind: 'error',
+        note: 'The file could not be read',
+      });
+      continue;
+    }
+    attachments.findings.push(await processFile(supabaseClient, file, attachments));
+  }
+  return attachments;
+}
+
+function isInFolder(path: string, folder: string): boolean {
+  return path.startsWith(folder) && !path.split('/').includes('..');
+}
+
+async function processFile(supabaseClient: SupabaseClient, file: FileUpload, attachments: Attachments): Promise<AttachmentFinding> {
+  const finding: AttachmentFinding = {
+    file_id: file.id,
+    file_name: file.file_name,
+    file_type: file.file_type,
+    kind: 'unsupported',
+  };
+
+  const isImage = IMAGE_TYPES.includes(file.file_type);
+  const isPdf = file.file_type === 'application/pdf';
+  const isText = TEXT_TYPES.includes(file.file_type);
+
+  if (!isImage && !isPdf && !isText) {
+    return { ...finding, note: 'The assistant cannot read this file type' };
+  }
+  const maxBytes = isImage ? MAX_IMAGE_BYTES : isPdf ? MAX_PDF_BYTES : MAX_TEXT_BYTES;
+  const tooLarge = { ...finding, note: `${isImage ? 'Image' : 'File'} is too large to analyse` };
+  if (file.file_size > maxBytes) return tooLarge;
+
+  try {
+    const { data: blob, error } = await supabaseClient.storage.from(BUCKET).download(file.storage_path);
+    if (error || !blob) throw error ?? new Error('File not found in storage');
+    // The recorded file_size is written by the customer, so the stored size is what counts
+    if (blob.size > maxBytes) return tooLarge;
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    if (isImage) {
+      attachments.images.push({ mimeType: file.file_type, data: encodeBase64(bytes) });
+      return { ...finding, kind: 'image', note: 'Sent to the model for visual analysis' };
+    }
+
+    let text: string;
+    let pages: number | undefined;
+    if (isPdf) {
+      const pdf = await getDocumentProxy(bytes);
+      const result = await extractText(pdf, { mergePages: true });
+      text = String(result.text);
+      pages = result.totalPages;
+    } else {
+      text = new TextDecoder().decode(bytes);
+    }
+
+    text = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    if (!text) {
+      return { ...finding, kind: 'text', pages, extracted_chars: 0, note: 'No text could be extracted, the document may be scanned' };
+    }
+
+    const truncated = text.length > MAX_TEXT_CHARS;
+    attachments.documents.push({ fileName: file.file_name, text: text.slice(0, MAX_TEXT_CHARS) });
+    return {
+      ...finding,
+      kind: 'text',
+      pages,
+      extracted_chars: text.length,
+      truncated,
+      excerpt: text.slice(0, EXCERPT_CHARS),
+    };
+  } catch (error) {
+    console.error(`Error processing attachment ${file.id}:`, error);
+    return { ...finding, kind: 'error', note: 'The file could not be read' };
+  }
+}
+
+// Prompt section describing the attachments
+export function formatAttachmentContext({ images, documents, findings }: Attachments): string {
+  if (findings.length === 0) return '';
+
+  const sections = [
+    `The customer attached ${findings.length} file(s) to their message.`,
+    images.length > 0
+      ? `${images.length} image(s) are included with the message. Look at them closely, e.g. for damaged parts, error codes or order details, and describe what is relevant to the customer's question.`
+      : null,
+    ...documents.map(document => `Text of "${document.fileName}":\n"""\n${document.text}\n"""`),
+    ...findings
+      .filter(finding => finding.kind === 'unsupported' || finding.kind === 'error')
+      .map(finding => `"${finding.file_name}" could not be read (${finding.note}). Let the customer know.`),
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,36 @@
+// Caller authentication and session ownership. The function runs with the service
+// role key, so these checks are what keeps one customer out of another's sessions.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { AssistantError } from "./errors.ts";
+
+// Verifies the caller's access token and returns their user id
+export async function authenticateCaller(supabaseClient: SupabaseClient, req: Request): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new AssistantError('unauthorized', 'Sign in to chat with the assistant');
+  }
+
+  const { data: { user }, error } = await supabaseClient.auth.getUser(token);
+  if (error || !user) {
+    throw new AssistantError('unauthorized', 'Your session has expired. Please sign in again.');
+  }
+  return user.id;
+}
+
+// Returns the id of the support agent who has taken over the session, if any
+export async function assertSessionOwner(supabaseClient: SupabaseClient, sessionId: string, userId: string): Promise<{ agentId: string | null }> {
+  const { data: session, error } = await supabaseClient
+    .from('chat_sessions')
+    .select('user_id, agent_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session) {
+    throw new AssistantError('session_not_found', 'This conversation no longer exists');
+  }
+  if (session.user_id !== userId) {
+    throw new AssistantError('session_forbidden', 'This conversation belongs to another account');
+  }
+  return { agentId: session.agent_id };
+}
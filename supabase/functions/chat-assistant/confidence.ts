@@ -0,0 +1,92 @@
+// Confidence scores for assistant answers. The score starts from how closely the retrieved
+// FAQ items match the question, is lowered when the model's answer hedges, and is then
+// pulled towards the share of earlier answers from the same FAQ items that customers
+// rated helpful. The admin Confidence Report compares the result with actual ratings.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface ItemFeedback {
+  helpful: number;
+  unhelpful: number;
+}
+
+export interface ConfidenceInput {
+  // Similarity of the FAQ item the answer is based on, if any
+  retrievalScore: number | null;
+  // True when the answer is taken verbatim from the FAQ
+  directFaqAnswer: boolean;
+  // The prompt included the customer's live order data
+  hasOrderContext: boolean;
+  answer: string;
+  feedback: ItemFeedback | null;
+}
+
+// What the score was computed from; stored in `messages.metadata.confidence_signals`
+export interface ConfidenceSignals {
+  retrieval: number;
+  hedged: boolean;
+  helpful_rate: number | null;
+  ratings: number;
+}
+
+const MIN_CONFIDENCE = 0.05;
+const MAX_CONFIDENCE = 0.99;
+
+// Score of a generated answer with no relevant FAQ items or order data to ground it
+const UNGROUNDED_SCORE = 0.35;
+const ORDER_CONTEXT_SCORE = 0.75;
+const HEDGE_PENALTY = 0.6;
+
+// Ratings needed before feedback outweighs the computed score
+const FEEDBACK_PRIOR_WEIGHT = 5;
+
+const HEDGE_PATTERN = /\b(i'?m not (sure|certain)|i (do not|don'?t) (know|have (that|this|enough|any) information)|i (can ?not|can'?t|am unable to|'m unable to) (find|confirm|answer|help with)|not covered|unclear|may or may not|it'?s possible that|contact (our )?(customer )?support)\b/i;
+
+export async function loadItemFeedback(supabaseClient: SupabaseClient, itemIds: string[]): Promise<Map<string, ItemFeedback>> {
+  const feedback = new Map<string, ItemFeedback>();
+  if (itemIds.length === 0) return feedback;
+
+  const { data, error } = await supabaseClient.rpc('qa_item_feedback', { item_ids: itemIds });
+  if (error) {
+    console.error('Error loading FAQ item feedback:', error);
+    return feedback;
+  }
+
+  for (const row of data || []) {
+    feedback.set(row.qa_item_id, { helpful: row.helpful_count, unhelpful: row.unhelpful_count });
+  }
+  return feedback;
+}
+
+export function calibrateConfidence(input: ConfidenceInput): { confidence: number; signals: ConfidenceSignals } {
+  let score: number;
+  if (input.directFaqAnswer && input.retrievalScore !== null) {
+    score = input.retrievalScore;
+  } else {
+    // A generated answer is at most as reliable as the context it was written from
+    const grounding = input.retrievalScore !== null ? UNGROUNDED_SCORE + 0.6 * input.retrievalScore : UNGROUNDED_SCORE;
+    score = input.hasOrderContext ? Math.max(grounding, ORDER_CONTEXT_SCORE) : grounding;
+  }
+  const retrieval = score;
+
+  const hedged = !input.directFaqAnswer && HEDGE_PATTERN.test(input.answer);
+  if (hedged) {
+    score *= HEDGE_PENALTY;
+  }
+
+  const ratings = input.feedback ? input.feedback.helpful + input.feedback.unhelpful : 0;
+  let helpfulRate: number | null = null;
+  if (input.feedback && ratings > 0) {
+    helpfulRate = input.feedback.helpful / ratings;
+    const weight = ratings / (ratings + FEEDBACK_PRIOR_WEIGHT);
+    score = (1 - weight) * score + weight * helpfulRate;
+  }
+
+  return {
+    confidence: round(Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, score))),
+    signals: { retrieval: round(retrieval), hedged, helpful_rate: helpfulRate === null ? null : round(helpfulRate), ratings },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,54 @@
+// Errors chat-assistant reports to the client. The JSON body (or SSE `error` event)
+// is `{ error, code }`, where `code` lets the client choose what to show the user.
+// Rate-limited requests also carry `retryAfter` in seconds.
+import { corsHeaders } from "../_shared/cors.ts";
+
+export type AssistantErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'session_not_found'
+  | 'session_forbidden'
+  | 'agent_active'
+  | 'rate_limited'
+  | 'internal_error';
+
+const STATUS_BY_CODE: Record<AssistantErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  session_forbidden: 403,
+  session_not_found: 404,
+  agent_active: 409,
+  rate_limited: 429,
+  internal_error: 500,
+};
+
+export class AssistantError extends Error {
+  constructor(public code: AssistantErrorCode, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'AssistantError';
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export function toErrorPayload(error: unknown): { error: string; code: AssistantErrorCode; retryAfter?: number } {
+  if (error instanceof AssistantError) {
+    return { error: error.message, code: error.code, retryAfter: error.retryAfter };
+  }
+  return { error: error instanceof Error ? error.message : 'Unexpected error', code: 'internal_error' };
+}
+
+export function errorResponse(error: unknown): Response {
+  const status = error instanceof AssistantError ? error.status : 500;
+  const retryAfter = error instanceof AssistantError ? error.retryAfter : undefined;
+  return new Response(JSON.stringify(toErrorPayload(error)), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : {}),
+    },
+  });
+}
@@ -0,0 +1,151 @@
+// Automatic escalation to human support. After each answer the conversation is checked
+// for signs that the assistant is not helping: a streak of low-confidence answers, the
+// customer asking the same question again, or frustrated wording. Thresholds come from
+// `auto_escalation_settings`, managed on the admin Assistant Settings page.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface AutoEscalationSettings {
+  is_enabled: boolean;
+  low_confidence_threshold: number;
+  low_confidence_streak: number;
+  rephrase_limit: number;
+  frustration_limit: number;
+}
+
+export interface EscalationSignals {
+  low_confidence_streak: number;
+  rephrases: number;
+  frustrated_messages: number;
+}
+
+export interface EscalationCheck {
+  signals: EscalationSignals;
+  // Human-readable reasons for the signals that reached their threshold
+  reasons: string[];
+}
+
+const DEFAULT_SETTINGS: AutoEscalationSettings = {
+  is_enabled: true,
+  low_confidence_threshold: 0.6,
+  low_confidence_streak: 3,
+  rephrase_limit: 2,
+  frustration_limit: 2,
+};
+
+// How far back the conversation is checked
+const RECENT_MESSAGE_LIMIT = 12;
+
+// Share of shared words above which two questions count as the same question
+const REPHRASE_SIMILARITY = 0.5;
+
+const FRUSTRATION_PATTERN = /\b(useless|pointless|not helpful|unhelpful|doesn'?t help|didn'?t help|not what i asked|you don'?t understand|stupid|ridiculous|terrible|awful|worst|frustrat\w*|annoy\w*|angry|fed up|waste of time|wtf|come on|i already (said|told|asked))\b|!{2,}|\?{3,}/i;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'can', 'do', 'does', 'for', 'how', 'i', 'in', 'is', 'it', 'me', 'my',
+  'of', 'on', 'or', 'please', 'the', 'to', 'what', 'when', 'where', 'why', 'with', 'you',
+]);
+
+interface RecentMessage {
+  message_type: string;
+  content: string;
+  metadata: { confidence_score?: number } | null;
+}
+
+export async function loadAutoEscalationSettings(supabaseClient: SupabaseClient): Promise<AutoEscalationSettings> {
+  const { data, error } = await supabaseClient
+    .from('auto_escalation_settings')
+    .select('is_enabled, low_confidence_threshold, low_confidence_streak, rephrase_limit, frustration_limit')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading auto escalation settings:', error);
+  }
+  return data ? { ...data, low_confidence_threshold: Number(data.low_confidence_threshold) } : DEFAULT_SETTINGS;
+}
+
+/**
+ * Checks whether the latest exchange should be escalated. A signal only counts when the
+ * current turn carries it, so a conversation that has recovered is not escalated because
+ * of something said earlier. `confidence` is null when no answer could be generated,
+ * e.g. during a provider outage, which says nothing about how well the assistant is doing.
+ */
+export async function checkForEscalation(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  query: string,
+  confidence: number | null,
+  settings: AutoEscalationSettings
+): Promise<EscalationCheck> {
+  const { data } = await supabaseClient
+    .from('messages')
+    .select('message_type, content, metadata')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_MESSAGE_LIMIT);
+
+  // Newest first; the current question has already been saved by the client
+  const recent: RecentMessage[] = data || [];
+  if (recent[0]?.message_type === 'user' && recent[0].content.trim() === query.trim()) {
+    recent.shift();
+  }
+
+  const earlierAnswers = recent.filter(message => message.message_type === 'assistant');
+  const earlierQuestions = recent.filter(message => message.message_type === 'user');
+
+  let lowConfidenceStreak = 0;
+  if (confidence !== null && confidence < settings.low_confidence_threshold) {
+    lowConfidenceStreak = 1;
+    for (const answer of earlierAnswers) {
+      const score = answer.metadata?.confidence_score;
+      if (typeof score !== 'number' || score >= settings.low_confidence_threshold) break;
+      lowConfidenceStreak++;
+    }
+  }
+
+  const queryWords = contentWords(query);
+  const rephrases = earlierQuestions
+    .filter(question => similarity(queryWords, contentWords(question.content)) >= REPHRASE_SIMILARITY)
+    .length;
+
+  const frustratedMessages = FRUSTRATION_PATTERN.test(query)
+    ? 1 + earlierQuestions.filter(question => FRUSTRATION_PATTERN.test(question.content)).length
+    : 0;
+
+  const signals = { low_confidence_streak: lowConfidenceStreak, rephrases, frustrated_messages: frustratedMessages };
+  const reasons: string[] = [];
+
+  if (!settings.is_enabled) {
+    return { signals, reasons };
+  }
+  if (settings.low_confidence_streak > 0 && lowConfidenceStreak >= settings.low_confidence_streak) {
+    reasons.push(`${lowConfidenceStreak} low-confidence answers in a row`);
+  }
+  if (settings.rephrase_limit > 0 && rephrases >= settings.rephrase_limit) {
+    reasons.push(`customer asked the same question ${rephrases + 1} times`);
+  }
+  if (settings.frustration_limit > 0 && frustratedMessages >= settings.frustration_limit) {
+    reasons.push(`frustrated wording in ${frustratedMessages} messages`);
+  }
+
+  return { signals, reasons };
+}
+
+export function formatEscalationReason(reasons: string[]): string {
+  return `Automatic escalation: ${reasons.join('; ')}`;
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(word => !STOP_WORDS.has(word))
+  );
+}
+
+// Jaccard similarity of two word sets
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
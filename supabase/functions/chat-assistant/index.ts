@@ -1,26 +1,39 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface QAItem {
-  id: string;
-  question: string;
-  answer: string;
-  keywords: string[];
-  category_id: string;
-  qa_categories?: {
-    name: string;
-  };
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import {
+  generateWithFallback,
+  getGenerationSettingsFromEnv,
+  getProvidersFromEnv,
+  type ChatMessage,
+} from "./providers.ts";
+import { buildSummaryPrompt, loadConversation, type Conversation, type HistoryMessage } from "./memory.ts";
+import { getFaqMatchThreshold, getRetrievalSettings, searchFaqItems, type FaqMatch } from "./retrieval.ts";
+import { detectIntent, loadIntentPatterns } from "./intents.ts";
+import { openEscalation, runIntentAction, type ActionResult } from "./actions.ts";
+import { formatOrderContext, isOrderQuestion, loadCustomerOrders, selectOrders } from "./orders.ts";
+import { assertSessionOwner, authenticateCaller } from "./auth.ts";
+import { AssistantError, errorResponse, toErrorPayload } from "./errors.ts";
+import { enforceRateLimit, getClientIp } from "./rateLimit.ts";
+import { formatAttachmentContext, loadAttachments, type Attachments } from "./attachments.ts";
+import { calibrateConfidence, loadItemFeedback, type ConfidenceSignals } from "./confidence.ts";
+import { checkForEscalation, formatEscalationReason, loadAutoEscalationSettings } from "./escalation.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+
+interface AssistantRequest {
+  query: string;
+  sessionId: string;
+  // Taken from the verified request JWT
+  userId: string;
+  // `file_uploads` ids attached to the user's message
+  fileIds: string[];
 }
 
-interface IntentPattern {
-  pattern: string;
-  intent: string;
-  confidence_threshold: number;
+interface AssistantResult {
+  response: string;
+  confidence: number;
+  suggestedQuestions: string[];
+  relatedItems: string[];
+  messageId?: string;
 }
 
 serve(async (req) => {
@@ -29,335 +42,332 @@ serve(async (req) => {
   }
 
   try {
-    const { query, sessionId, userId, hasFiles = false, fileTypes = [] } = await req.json();
+    const { query, sessionId, fileIds = [], stream = false } = await req.json()
+      .catch(() => { throw new AssistantError('invalid_request', 'Request body must be JSON'); });
+
+    if (typeof query !== 'string' || !query.trim() || typeof sessionId !== 'string' || !UUID_PATTERN.test(sessionId)) {
+      throw new AssistantError('invalid_request', 'A query and a valid sessionId are required');
+    }
+    if (!Array.isArray(fileIds) || !fileIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+      throw new AssistantError('invalid_request', 'fileIds must be a list of file upload ids');
+    }
     
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Get QA items and intent patterns
-    const [qaResult, intentResult] = await Promise.all([
-      supabaseClient
-        .from('qa_items')
-        .select(`
-          id, question, answer, keywords, category_id,
-          qa_categories(name)
-        `)
-        .eq('is_active', true),
-      supabaseClient
-        .from('intent_patterns')
-        .select('*')
-        .eq('is_active', true)
-    ]);
-
-    const qaItems: QAItem[] = qaResult.data || [];
-    const intentPatterns: IntentPattern[] = intentResult.data || [];
-
-    // Find best matching QA item using fuzzy search
-    const bestMatch = findBestMatch(query, qaItems);
-    let response = '';
-    let confidence = 0;
-    let matchedIntent = '';
-    let relatedItems: string[] = [];
-    let responseSource = 'ai';
-
-    console.log('Query:', query);
-    console.log('Best match:', bestMatch ? `${bestMatch.confidence.toFixed(3)} - ${bestMatch.item.question}` : 'None');
-
-    if (bestMatch && bestMatch.confidence > 0.3) {
-      response = bestMatch.item.answer;
-      confidence = bestMatch.confidence;
-      responseSource = 'qa_database';
-      relatedItems = findRelatedItems(bestMatch.item, qaItems);
-      
-      console.log('Using FAQ answer:', response.substring(0, 100) + '...');
-      
-      // Increment view count
-      await supabaseClient
-        .from('qa_items')
-        .update({ view_count: bestMatch.item.view_count + 1 })
-        .eq('id', bestMatch.item.id);
-    } else {
-      console.log('Using Gemini AI response');
-      // Use Gemini API for AI response
-      const geminiResponse = await callGeminiAPI(query, qaItems, hasFiles, fileTypes);
-      response = geminiResponse.answer;
-      confidence = geminiResponse.confidence;
-      matchedIntent = detectIntent(query, intentPatterns);
+    // Every call may cost an LLM request, so callers are throttled per IP address
+    // before any other work and per user once they are authenticated
+    const clientIp = getClientIp(req);
+    if (clientIp) {
+      await enforceRateLimit(supabaseClient, 'ip', clientIp);
     }
 
-    // Generate suggested questions
-    const suggestedQuestions = await generateSuggestedQuestions(query, qaItems);
-
-    // Save message to database
-    const { data: messageData, error: messageError } = await supabaseClient
-      .from('messages')
-      .insert({
-        session_id: sessionId,
-        message_type: 'assistant',
-        content: response,
-        metadata: {
-          query: query,
-          suggested_questions: suggestedQuestions,
-          confidence_score: confidence,
-          matched_intent: matchedIntent,
-          related_qa_items: relatedItems,
-          response_source: responseSource
-        }
-      })
-      .select()
-      .single();
+    // Only the owner of a session may add assistant messages to it
+    const userId = await authenticateCaller(supabaseClient, req);
+    await enforceRateLimit(supabaseClient, 'user', userId);
+    const { agentId } = await assertSessionOwner(supabaseClient, sessionId, userId);
+
+    // A support agent is talking to the customer, so the assistant stays out of the conversation
+    if (agentId) {
+      throw new AssistantError('agent_active', 'A member of our support team is handling this conversation');
+    }
 
-    if (messageError) {
-      console.error('Error saving assistant message:', messageError);
+    const request: AssistantRequest = { query, sessionId, userId, fileIds };
+
+    if (stream) {
+      // Stream tokens as Server-Sent Events. The message id is generated up front so the
+      // client can match its partial bubble to the persisted `messages` row.
+      const messageId = crypto.randomUUID();
+      const body = new ReadableStream({
+        async start(controller) {
+          const send = (event: string, data: unknown) => controller.enqueue(encodeEvent(event, data));
+
+          send('start', { messageId });
+          try {
+            const result = await answerQuery(supabaseClient, request, messageId, (text) => send('token', { text }));
+            send('done', result);
+          } catch (error) {
+            console.error('Error streaming chat-assistant response:', error);
+            send('error', toErrorPayload(error));
+          } finally {
+            controller.close();
+          }
+        }
+      });
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
     }
 
-    return new Response(JSON.stringify({
-      response,
-      confidence,
-      suggestedQuestions,
-      relatedItems,
-      messageId: messageData?.id
-    }), {
+    const result = await answerQuery(supabaseClient, request, crypto.randomUUID());
+
+    return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in chat-assistant:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(error);
   }
 });
 
-function findBestMatch(query: string, qaItems: QAItem[]) {
-  let bestMatch = null;
-  let highestScore = 0;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-  for (const item of qaItems) {
-    const questionScore = calculateSimilarity(query.toLowerCase(), item.question.toLowerCase());
-    const keywordScore = calculateKeywordMatch(query.toLowerCase(), item.keywords || []);
-    const semanticScore = calculateSemanticSimilarity(query.toLowerCase(), item.question.toLowerCase());
-    
-    // Weight the different scores: semantic similarity gets highest weight
-    const finalScore = Math.max(
-      questionScore * 0.6, 
-      keywordScore * 0.8,
-      semanticScore * 1.0
-    );
-
-    if (finalScore > highestScore) {
-      highestScore = finalScore;
-      bestMatch = { item: { ...item, view_count: item.view_count || 0 }, confidence: finalScore };
-    }
-  }
+const encoder = new TextEncoder();
 
-  return bestMatch;
+function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
-function calculateSimilarity(str1: string, str2: string): number {
-  // Remove common stop words and normalize
-  const stopWords = ['what', 'is', 'the', 'are', 'your', 'my', 'do', 'does', 'can', 'have', 'how', 'where', 'when', 'why', 'i', 'you', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'for', 'with', 'on', 'at', 'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'among', 'within', 'without', 'along', 'following', 'across', 'behind', 'beyond', 'plus', 'except', 'but', 'than', 'that', 'this', 'these', 'those'];
-  
-  const words1 = str1.toLowerCase().split(/\s+/).filter(word => word.length > 2 && !stopWords.includes(word));
-  const words2 = str2.toLowerCase().split(/\s+/).filter(word => word.length > 2 && !stopWords.includes(word));
-  
-  if (words1.length === 0 || words2.length === 0) return 0;
-  
-  // Calculate exact word matches
-  const exactMatches = words1.filter(word => words2.includes(word)).length;
-  
-  // Calculate partial matches (word contains another word)
-  let partialMatches = 0;
-  for (const word1 of words1) {
-    for (const word2 of words2) {
-      if (word1 !== word2 && (word1.includes(word2) || word2.includes(word1))) {
-        partialMatches += 0.5;
-        break;
-      }
+async function answerQuery(
+  supabaseClient: SupabaseClient,
+  { query, sessionId, userId, fileIds }: AssistantRequest,
+  messageId: string,
+  onToken?: (text: string) => void
+): Promise<AssistantResult> {
+  // Get intent patterns, the conversation so far, the FAQ items closest to the query,
+  // the caller's recent orders and any files attached to the message
+  const [intentPatterns, conversation, faqMatches, orders, attachments, escalationSettings] = await Promise.all([
+    loadIntentPatterns(supabaseClient),
+    loadConversation(supabaseClient, sessionId, query, summarizeConversation),
+    retrieveFaqMatches(supabaseClient, query),
+    loadCustomerOrders(supabaseClient, userId),
+    loadAttachments(supabaseClient, userId, sessionId, fileIds),
+    loadAutoEscalationSettings(supabaseClient)
+  ]);
+
+  const bestMatch = faqMatches[0];
+  const detectedIntent = detectIntent(query, intentPatterns);
+  const matchedIntent = detectedIntent.intent;
+  // Order-specific questions are answered from the caller's orders rather than a generic FAQ entry
+  const orderSelection = isOrderQuestion(query, orders) ? selectOrders(query, orders) : null;
+  let response = '';
+  let confidence = 0;
+  let relatedItems: string[] = [];
+  let qaItemId: string | null = null;
+  let responseSource = 'ai';
+  let llmProvider: string | undefined;
+  let intentAction: ActionResult['action'] | undefined;
+  let autoEscalation: Record<string, unknown> | undefined;
+  let confidenceSignals: ConfidenceSignals | undefined;
+  let answerFailed = false;
+
+  console.log('Query:', query);
+  console.log('Matched intent:', matchedIntent, `(${detectedIntent.action})`);
+  console.log('Best match:', bestMatch ? `${bestMatch.similarity.toFixed(3)} - ${bestMatch.question}` : 'None');
+
+  const actionResult = detectedIntent.action === 'faq'
+    ? null
+    : await runIntentAction({ supabaseClient, sessionId, userId, orders, query, intent: detectedIntent });
+
+  if (actionResult) {
+    response = actionResult.response;
+    confidence = 1;
+    responseSource = 'intent_action';
+    intentAction = actionResult.action;
+    relatedItems = faqMatches.slice(0, 3).map(item => item.id);
+
+    console.log('Handled by intent action:', intentAction);
+    onToken?.(response);
+  } else if (bestMatch && bestMatch.similarity >= getFaqMatchThreshold() && !orderSelection && attachments.findings.length === 0) {
+    response = bestMatch.answer;
+    const itemFeedback = await loadItemFeedback(supabaseClient, [bestMatch.id]);
+    ({ confidence, signals: confidenceSignals } = calibrateConfidence({
+      retrievalScore: bestMatch.similarity,
+      directFaqAnswer: true,
+      hasOrderContext: false,
+      answer: response,
+      feedback: itemFeedback.get(bestMatch.id) ?? null,
+    }));
+    qaItemId = bestMatch.id;
+    responseSource = 'qa_database';
+    relatedItems = faqMatches.slice(1, 4).map(item => item.id);
+    
+    console.log('Using FAQ answer:', response.substring(0, 100) + '...');
+    // FAQ answers are already complete, so they go out as a single token
+    onToken?.(response);
+    
+    // Increment view count
+    await supabaseClient
+      .from('qa_items')
+      .update({ view_count: (bestMatch.view_count || 0) + 1 })
+      .eq('id', bestMatch.id);
+  } else {
+    console.log('Using AI response');
+    const contextItems = selectContextItems(faqMatches);
+    const orderContext = orderSelection ? formatOrderContext(orderSelection) : null;
+    const aiResponse = await generateAIResponse(query, contextItems, conversation, orderContext, attachments, onToken);
+    response = aiResponse.answer;
+    llmProvider = aiResponse.provider;
+
+    if (aiResponse.failed) {
+      confidence = 0.1;
+      answerFailed = true;
+    } else {
+      const topItem = contextItems[0];
+      const itemFeedback = await loadItemFeedback(supabaseClient, topItem ? [topItem.id] : []);
+      ({ confidence, signals: confidenceSignals } = calibrateConfidence({
+        retrievalScore: topItem?.similarity ?? null,
+        directFaqAnswer: false,
+        hasOrderContext: orderContext !== null,
+        answer: response,
+        feedback: topItem ? itemFeedback.get(topItem.id) ?? null : null,
+      }));
     }
-  }
-  
-  const totalMatches = exactMatches + partialMatches;
-  return totalMatches / Math.max(words1.length, words2.length);
-}
-
-function calculateKeywordMatch(query: string, keywords: string[]): number {
-  if (!keywords || keywords.length === 0) return 0;
-  
-  const queryWords = query.toLowerCase().split(/\s+/);
-  const matches = keywords.filter(keyword => 
-    queryWords.some(word => 
-      word.includes(keyword.toLowerCase()) || 
-      keyword.toLowerCase().includes(word) ||
-      // Check for semantic similarity
-      areSimilarWords(word, keyword.toLowerCase())
-    )
-  );
-  return matches.length / keywords.length;
-}
 
-function areSimilarWords(word1: string, word2: string): boolean {
-  // Handle common word variations and semantic similarity
-  const synonyms = {
-    'speed': ['velocity', 'pace', 'fast', 'quick', 'mph', 'rate'],
-    'range': ['distance', 'miles', 'travel', 'reach', 'mileage'],
-    'battery': ['charge', 'power', 'energy', 'charging'],
-    'waterproof': ['water', 'rain', 'wet', 'weather', 'resistant'],
-    'warranty': ['guarantee', 'coverage', 'protection', 'policy'],
-    'legal': ['law', 'regulations', 'rules', 'permitted', 'street', 'road'],
-    'service': ['repair', 'maintenance', 'fix', 'support'],
-    'track': ['follow', 'monitor', 'status', 'order'],
-    'payment': ['pay', 'cost', 'price', 'billing', 'methods'],
-    'return': ['refund', 'exchange', 'send back', 'policy'],
-    'models': ['types', 'versions', 'variants', 'options', 'scooters', 'products'],
-    'differences': ['compare', 'comparison', 'different', 'features', 'specs'],
-    'features': ['specs', 'specifications', 'capabilities', 'options'],
-    'delivery': ['shipping', 'shipping', 'transport', 'sent'],
-    'accessories': ['parts', 'add-ons', 'extras', 'components']
-  };
-  
-  for (const [key, values] of Object.entries(synonyms)) {
-    if ((word1 === key && values.includes(word2)) || 
-        (word2 === key && values.includes(word1)) ||
-        (values.includes(word1) && values.includes(word2))) {
-      return true;
-    }
+    // The prompt only contained these items, so they are the answer's citations
+    relatedItems = contextItems.map(item => item.id);
+    qaItemId = contextItems[0]?.id ?? null;
   }
-  
-  return false;
-}
 
-function calculateSemanticSimilarity(query: string, question: string): number {
-  // Enhanced semantic matching for better FAQ detection
-  const queryWords = query.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-  const questionWords = question.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-  
-  let semanticMatches = 0;
-  let totalQueryWords = queryWords.length;
-  
-  for (const queryWord of queryWords) {
-    for (const questionWord of questionWords) {
-      // Exact match
-      if (queryWord === questionWord) {
-        semanticMatches += 1;
-        break;
-      }
-      // Semantic similarity using synonyms
-      if (areSimilarWords(queryWord, questionWord)) {
-        semanticMatches += 0.8;
-        break;
-      }
-      // Partial word match (contains)
-      if (queryWord.length > 3 && questionWord.length > 3) {
-        if (queryWord.includes(questionWord) || questionWord.includes(queryWord)) {
-          semanticMatches += 0.6;
-          break;
+  // Hand the conversation to a human when the assistant is evidently not helping
+  if (!actionResult) {
+    const { signals, reasons } = await checkForEscalation(supabaseClient, sessionId, query, answerFailed ? null : confidence, escalationSettings);
+    if (reasons.length > 0) {
+      try {
+        const escalation = await openEscalation(supabaseClient, {
+          userId,
+          sessionId,
+          question: query,
+          reason: formatEscalationReason(reasons),
+        });
+        autoEscalation = { escalation_id: escalation.id, created: escalation.created, reasons, signals };
+
+        if (escalation.created) {
+          const notice = "\n\nI'm sorry I haven't been able to resolve this. I've passed our conversation to the support team, and a member of the team will follow up with you.";
+          response += notice;
+          onToken?.(notice);
         }
+        console.log('Auto-escalated conversation:', reasons);
+      } catch (error) {
+        console.error('Error creating automatic escalation:', error);
       }
     }
   }
-  
-  // Boost score for specific patterns
-  if (query.includes('model') && question.includes('model')) {
-    semanticMatches += 0.5;
-  }
-  if (query.includes('difference') && question.includes('difference')) {
-    semanticMatches += 0.5;
-  }
-  if (query.includes('types') && (question.includes('model') || question.includes('difference'))) {
-    semanticMatches += 0.3;
+
+  // Generate suggested questions
+  const suggestedQuestions = await generateSuggestedQuestions(query, faqMatches.filter(item => item.id !== qaItemId));
+
+  // Save message to database
+  const { data: messageData, error: messageError } = await supabaseClient
+    .from('messages')
+    .insert({
+      id: messageId,
+      session_id: sessionId,
+      message_type: 'assistant',
+      content: response,
+      qa_item_id: qaItemId,
+      metadata: {
+        query: query,
+        suggested_questions: suggestedQuestions,
+        confidence_score: confidence,
+        confidence_signals: confidenceSignals,
+        matched_intent: matchedIntent,
+        related_qa_items: relatedItems,
+        response_source: responseSource,
+        llm_provider: llmProvider,
+        intent_action: intentAction,
+        referenced_orders: orderSelection?.orders.map(order => order.order_number),
+        attachments: attachments.findings.length > 0 ? attachments.findings : undefined,
+        auto_escalation: autoEscalation
+      }
+    })
+    .select()
+    .single();
+
+  if (messageError) {
+    console.error('Error saving assistant message:', messageError);
   }
-  
-  return Math.min(semanticMatches / totalQueryWords, 1.0);
-}
 
-function findRelatedItems(item: QAItem, allItems: QAItem[]): string[] {
-  return allItems
-    .filter(otherItem => 
-      otherItem.id !== item.id && 
-      otherItem.category_id === item.category_id
-    )
-    .slice(0, 3)
-    .map(item => item.id);
+  return {
+    response,
+    confidence,
+    suggestedQuestions,
+    relatedItems,
+    messageId: messageData?.id
+  };
 }
 
-function detectIntent(query: string, patterns: IntentPattern[]): string {
-  for (const pattern of patterns) {
-    const regex = new RegExp(pattern.pattern, 'i');
-    if (regex.test(query)) {
-      return pattern.intent;
-    }
+// Retrieves the FAQ items closest to the query by embedding similarity
+async function retrieveFaqMatches(supabaseClient: SupabaseClient, query: string): Promise<FaqMatch[]> {
+  try {
+    return await searchFaqItems(supabaseClient, query, getRetrievalSettings().topK);
+  } catch (error) {
+    // Without FAQ search the assistant still answers through the LLM
+    console.error('Error searching FAQ embeddings:', error);
+    return [];
   }
-  return 'general_inquiry';
 }
 
-async function callGeminiAPI(query: string, qaItems: QAItem[], hasFiles: boolean = false, fileTypes: string[] = []): Promise<{ answer: string, confidence: number }> {
-  const apiKey = Deno.env.get('GEMINI_API_KEY');
-  
-  const context = qaItems.map(item => 
-    `Q: ${item.question}\nA: ${item.answer}`
-  ).slice(0, 10).join('\n\n');
-
-  let fileContext = '';
-  if (hasFiles && fileTypes.length > 0) {
-    const supportedFileTypes = fileTypes.map(type => {
-      if (type.startsWith('image/')) return 'image';
-      if (type.startsWith('video/')) return 'video';
-      if (type.includes('pdf')) return 'PDF document';
-      if (type.includes('document') || type.includes('text/')) return 'document';
-      return 'file';
-    });
-    fileContext = `The user has shared ${fileTypes.length} file(s): ${supportedFileTypes.join(', ')}. Acknowledge these files and offer relevant assistance based on the file types.`;
-  }
+// Only reasonably relevant items are worth spending prompt tokens on
+function selectContextItems(matches: FaqMatch[]): FaqMatch[] {
+  const { minSimilarity } = getRetrievalSettings();
+  return matches.filter(item => item.similarity >= minSimilarity);
+}
+
+async function generateAIResponse(query: string, contextItems: FaqMatch[], conversation: Conversation, orderContext: string | null, attachments: Attachments, onToken?: (text: string) => void): Promise<{ answer: string, provider?: string, failed?: boolean }> {
+  const context = contextItems.length > 0
+    ? contextItems.map(item => 
+        `[FAQ ${item.id}]\nQ: ${item.question}\nA: ${item.answer}`
+      ).join('\n\n')
+    : 'No FAQ entries are relevant to this question.';
 
-  const prompt = `
-You are a helpful customer service assistant for a scooter company. Use the following FAQ context to answer the user's question. If the question is not covered in the FAQ, provide a helpful general response.
+  const fileContext = formatAttachmentContext(attachments);
+
+  const instructions = `
+You are a helpful customer service assistant for a scooter company. Use the following FAQ context, which holds the entries most relevant to the user's question, to answer it. If the question is not covered in the FAQ, provide a helpful general response. Never mention the FAQ identifiers to the user. Earlier messages in the conversation are included, so resolve follow-up questions against them.
 
 ${fileContext}
 
 FAQ Context:
 ${context}
-
-User Question: ${query}
-
+${orderContext ? `\nThe customer's recent orders (live data):\n${orderContext}\n` : ''}
 Provide a helpful, accurate response. Be concise but informative.
 `;
 
-  try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }]
-      })
-    });
+  const messages: ChatMessage[] = [
+    { role: 'system', content: instructions },
+    ...(conversation.summary
+      ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${conversation.summary}` }]
+      : []),
+    ...conversation.history,
+    { role: 'user', content: query, images: attachments.images },
+  ];
 
-    const data = await response.json();
-    const answer = data.candidates?.[0]?.content?.parts?.[0]?.text || 'I apologize, but I am unable to process your request at the moment.';
+  try {
+    const { answer, provider } = await generateWithFallback(
+      getProvidersFromEnv(),
+      { messages, onToken },
+      getGenerationSettingsFromEnv()
+    );
     
-    return {
-      answer,
-      confidence: 0.8 // Default confidence for AI responses
-    };
+    return { answer, provider };
   } catch (error) {
-    console.error('Gemini API error:', error);
-    return {
-      answer: 'I apologize, but I am experiencing technical difficulties. Please try again later.',
-      confidence: 0.1
-    };
+    console.error('LLM provider error:', error);
+    const answer = 'I apologize, but I am experiencing technical difficulties. Please try again later.';
+    onToken?.(answer);
+    return { answer, failed: true };
   }
 }
 
-async function generateSuggestedQuestions(query: string, qaItems: QAItem[]): Promise<string[]> {
+async function summarizeConversation(previousSummary: string | null, messages: HistoryMessage[]): Promise<string> {
+  const { answer } = await generateWithFallback(
+    getProvidersFromEnv(),
+    { messages: buildSummaryPrompt(previousSummary, messages) },
+    getGenerationSettingsFromEnv()
+  );
+  return answer.trim();
+}
+
+async function generateSuggestedQuestions(query: string, qaItems: FaqMatch[]): Promise<string[]> {
   const suggestions = [];
   
   // Find questions with similar keywords
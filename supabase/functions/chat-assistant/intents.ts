@@ -0,0 +1,67 @@
+// Intent classification against the admin-managed `intent_patterns` table.
+// Keep in sync with src/lib/intents.ts, which the admin editor uses to test patterns.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export const DEFAULT_INTENT = 'general_inquiry';
+
+// What chat-assistant does once the intent is detected, see actions.ts
+export type IntentAction = 'faq' | 'order_lookup' | 'order_inquiry' | 'escalate';
+
+export interface IntentPattern {
+  intent: string;
+  pattern: string;
+  match_type: 'regex' | 'keyword';
+  confidence_threshold: number;
+  action: IntentAction;
+}
+
+export interface DetectedIntent {
+  intent: string;
+  action: IntentAction;
+}
+
+export async function loadIntentPatterns(supabaseClient: SupabaseClient): Promise<IntentPattern[]> {
+  const { data, error } = await supabaseClient
+    .from('intent_patterns')
+    .select('intent, pattern, match_type, confidence_threshold, action')
+    .eq('is_active', true)
+    .order('sort_order');
+
+  if (error) {
+    console.error('Error loading intent patterns:', error);
+    return [];
+  }
+  return data || [];
+}
+
+// Regex patterns match when they are found in the query. Keyword patterns hold
+// comma-separated keywords and match when the share of keywords found in the query
+// reaches the pattern's confidence threshold.
+export function matchesIntentPattern(query: string, pattern: IntentPattern): boolean {
+  if (pattern.match_type === 'keyword') {
+    const keywords = pattern.pattern
+      .split(',')
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(Boolean);
+    if (keywords.length === 0) return false;
+
+    const text = query.toLowerCase();
+    const found = keywords.filter(keyword => text.includes(keyword)).length;
+    return found / keywords.length >= Number(pattern.confidence_threshold);
+  }
+
+  try {
+    return new RegExp(pattern.pattern, 'i').test(query);
+  } catch {
+    // An invalid pattern must not break the chat, it simply never matches
+    return false;
+  }
+}
+
+// Patterns are expected in evaluation order; the first one that matches wins
+export function detectIntent(query: string, patterns: IntentPattern[]): DetectedIntent {
+  const match = patterns.find(pattern => matchesIntentPattern(query, pattern));
+  return match
+    ? { intent: match.intent, action: match.action }
+    : { intent: DEFAULT_INTENT, action: 'faq' };
+}
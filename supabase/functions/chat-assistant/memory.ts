@@ -0,0 +1,196 @@
+// Conversation memory for chat-assistant prompts.
+// Recent turns are sent verbatim within a token budget; anything older is folded
+// into a rolling summary kept in `chat_sessions.session_summary`.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import type { ChatMessage } from "./providers.ts";
+
+export interface HistoryMessage {
+  id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+}
+
+export interface Conversation {
+  summary: string | null;
+  history: ChatMessage[];
+}
+
+const DEFAULT_TOKEN_BUDGET = 1500;
+
+const SPEAKER_LABELS: Record<string, string> = {
+  user: 'Customer',
+  assistant: 'Assistant',
+  agent: 'Support agent',
+};
+// Unsummarized messages are read in pages of this size, and overflow is summarized in
+// chunks of this size, so long sessions never skip messages or build huge prompts
+const HISTORY_PAGE_SIZE = 100;
+
+// Rough token estimate (~4 characters per token) - good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getHistoryTokenBudget(): number {
+  return Number(Deno.env.get('HISTORY_TOKEN_BUDGET')) || DEFAULT_TOKEN_BUDGET;
+}
+
+/**
+ * Splits chronologically ordered messages into the newest ones that fit in `budget`
+ * tokens and the older ones that overflow it.
+ */
+export function buildConversationWindow(messages: HistoryMessage[], budget: number) {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+
+  return {
+    window: messages.slice(start),
+    overflow: messages.slice(0, start),
+  };
+}
+
+// Replies from a human support agent are kept as assistant turns, marked so the model
+// knows a person said them. System notices are not part of the dialogue.
+export function toChatMessages(messages: HistoryMessage[]): ChatMessage[] {
+  return messages
+    .filter(m => m.message_type === 'user' || m.message_type === 'assistant' || m.message_type === 'agent')
+    .map(m => m.message_type === 'agent'
+      ? { role: 'assistant', content: `[Support agent] ${m.content}` }
+      : { role: m.message_type as 'user' | 'assistant', content: m.content });
+}
+
+/**
+ * Loads the session history that precedes `currentQuery` and returns it as a
+ * token-budgeted window. When the unsummarized history no longer fits, the older part
+ * is summarized with `summarize` in chunks, oldest first, and persisted. The window is
+ * then shrunk to half the budget so the summary does not have to be refreshed on every
+ * following turn.
+ */
+export async function loadConversation(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  currentQuery: string,
+  summarize: (previousSummary: string | null, messages: HistoryMessage[]) => Promise<string>
+): Promise<Conversation> {
+  const { data: session } = await supabaseClient
+    .from('chat_sessions')
+    .select('session_summary, summarized_until, summarized_until_id')
+    .eq('id', sessionId)
+    .single();
+
+  const cursor = session?.summarized_until
+    ? { createdAt: session.summarized_until, id: session.summarized_until_id }
+    : null;
+  const messages = await loadUnsummarizedMessages(supabaseClient, sessionId, cursor);
+
+  // The client saves the user's message before invoking the function, so drop it here
+  const last = messages[messages.length - 1];
+  if (last && last.message_type === 'user' && last.content.trim() === currentQuery.trim()) {
+    messages.pop();
+  }
+
+  let summary: string | null = session?.session_summary ?? null;
+  const budget = getHistoryTokenBudget();
+  let { window, overflow } = buildConversationWindow(messages, budget);
+
+  if (overflow.length > 0) {
+    const compacted = buildConversationWindow(messages, Math.floor(budget / 2));
+    window = compacted.window;
+    overflow = compacted.overflow;
+
+    // Oldest first, saving after each chunk so progress survives a later failure
+    for (let i = 0; i < overflow.length; i += HISTORY_PAGE_SIZE) {
+      const chunk = overflow.slice(i, i + HISTORY_PAGE_SIZE);
+      try {
+        const chunkSummary = await summarize(summary, chunk);
+        const { error: updateError } = await supabaseClient
+          .from('chat_sessions')
+          .update({
+            session_summary: chunkSummary,
+            summarized_until: chunk[chunk.length - 1].created_at,
+            summarized_until_id: chunk[chunk.length - 1].id,
+          })
+          .eq('id', sessionId);
+
+        if (updateError) {
+          console.error('Error saving session summary:', updateError);
+          break;
+        }
+        summary = chunkSummary;
+      } catch (summaryError) {
+        // Keep answering with the summary so far; the rest is retried next turn
+        console.error('Error summarizing conversation:', summaryError);
+        break;
+      }
+    }
+  }
+
+  return {
+    summary,
+    history: toChatMessages(window),
+  };
+}
+
+// Every message after the last summarized one, oldest first. Messages are ordered by
+// (created_at, id), so ones sharing the last summarized timestamp are not skipped.
+async function loadUnsummarizedMessages(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  summarizedUntil: { createdAt: string; id: string | null } | null
+): Promise<HistoryMessage[]> {
+  const messages: HistoryMessage[] = [];
+
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    let query = supabaseClient
+      .from('messages')
+      .select('id, content, message_type, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+    if (summarizedUntil?.id) {
+      const createdAt = `"${summarizedUntil.createdAt}"`;
+      query = query.or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${summarizedUntil.id})`);
+    } else if (summarizedUntil) {
+      query = query.gt('created_at', summarizedUntil.createdAt);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading conversation history:', error);
+      break;
+    }
+
+    messages.push(...(data || []));
+    if (!data || data.length < HISTORY_PAGE_SIZE) break;
+  }
+
+  return messages;
+}
+
+export function buildSummaryPrompt(previousSummary: string | null, messages: HistoryMessage[]): ChatMessage[] {
+  const transcript = messages
+    .filter(m => m.message_type !== 'system')
+    .map(m => `${SPEAKER_LABELS[m.message_type] ?? 'Assistant'}: ${m.content}`)
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: 'You maintain a running summary of a customer support conversation for a scooter company. Keep facts the assistant will need later: products, order numbers, problems described, and what has already been answered. Reply with the updated summary only, in at most 150 words.',
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New messages:\n${transcript}`,
+    },
+  ];
+}
@@ -0,0 +1,138 @@
+// The caller's orders, used for order lookups and for grounding order-specific answers.
+// Orders are always loaded for the user id taken from the request JWT, never from the
+// request body, so a customer can only ever be told about their own orders.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface Order {
+  id: string;
+  order_number: string;
+  scooter_model: string;
+  quantity: number | null;
+  status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled' | null;
+  order_date: string | null;
+  estimated_delivery: string | null;
+  actual_delivery: string | null;
+  tracking_number: string | null;
+}
+
+// Which of the caller's orders a query is about. `ambiguous` means the customer has
+// several candidate orders and has to say which one they mean.
+export interface OrderSelection {
+  orders: Order[];
+  ambiguous: boolean;
+}
+
+// Order numbers look like "ORD-12345"
+const ORDER_NUMBER_PATTERN = /\b[a-z]{2,5}-?\d{3,}\b/gi;
+
+// Personal references to a purchase, e.g. "where is my scooter?"
+const ORDER_QUESTION_PATTERN = /\b(my|mine|i)\b.*\b(orders?|scooters?|deliver(y|ed)|package|parcel|shipment|shipping|tracking|purchase)\b/i;
+
+// How many recent orders are considered
+const RECENT_ORDER_LIMIT = 5;
+
+export async function loadCustomerOrders(supabaseClient: SupabaseClient, userId: string | null): Promise<Order[]> {
+  if (!userId) return [];
+
+  const { data, error } = await supabaseClient
+    .from('orders')
+    .select('id, order_number, scooter_model, quantity, status, order_date, estimated_delivery, actual_delivery, tracking_number')
+    .eq('user_id', userId)
+    .order('order_date', { ascending: false })
+    .limit(RECENT_ORDER_LIMIT);
+
+  if (error) {
+    console.error('Error loading customer orders:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export function isOrderQuestion(query: string, orders: Order[]): boolean {
+  return orders.length > 0 && (ORDER_QUESTION_PATTERN.test(query) || findNamedOrders(query, orders).length > 0);
+}
+
+/**
+ * Picks the orders a query refers to: orders named by number, else orders whose scooter
+ * model is mentioned, else the only order still in progress. When none of these narrow
+ * it down to one order, every recent order is returned and the selection is ambiguous.
+ */
+export function selectOrders(query: string, orders: Order[]): OrderSelection {
+  if (orders.length <= 1) {
+    return { orders, ambiguous: false };
+  }
+
+  const named = findNamedOrders(query, orders);
+  if (named.length > 0) {
+    return { orders: named, ambiguous: false };
+  }
+
+  const text = query.toLowerCase();
+  const byModel = orders.filter(order => text.includes(order.scooter_model.toLowerCase()));
+  if (byModel.length === 1) {
+    return { orders: byModel, ambiguous: false };
+  }
+
+  const candidates = byModel.length > 1 ? byModel : orders;
+  const inProgress = candidates.filter(order => order.status !== 'delivered' && order.status !== 'cancelled');
+  if (inProgress.length === 1) {
+    return { orders: inProgress, ambiguous: false };
+  }
+
+  return { orders: candidates, ambiguous: true };
+}
+
+export function describeOrder(order: Order): string {
+  const name = `Your order ${order.order_number} (${order.scooter_model})`;
+  const tracking = order.tracking_number ? ` Your tracking number is ${order.tracking_number}.` : '';
+  const estimate = order.estimated_delivery ? ` The estimated delivery date is ${formatDate(order.estimated_delivery)}.` : '';
+
+  switch (order.status) {
+    case 'confirmed':
+      return `${name} is confirmed and being prepared for shipping.${estimate}`;
+    case 'shipped':
+      return `${name} has shipped.${tracking}${estimate}`;
+    case 'delivered':
+      return `${name} was delivered${order.actual_delivery ? ` on ${formatDate(order.actual_delivery)}` : ''}.${tracking}`;
+    case 'cancelled':
+      return `${name} was cancelled. If you have any questions about the cancellation, just ask and I can connect you with our team.`;
+    default:
+      return `${name} has been received and is waiting for confirmation.${estimate}`;
+  }
+}
+
+// Asks the customer to pick one of several orders
+export function describeOrderChoice(orders: Order[]): string {
+  const list = orders
+    .map(order => `- ${order.order_number}: ${order.scooter_model}, ordered ${formatDate(order.order_date)} (${order.status ?? 'pending'})`)
+    .join('\n');
+  return `You have ${orders.length} recent orders:\n${list}\n\nWhich one would you like to know about? Just reply with the order number.`;
+}
+
+// Order facts for the LLM prompt
+export function formatOrderContext({ orders, ambiguous }: OrderSelection): string {
+  const lines = orders.map(order => [
+    `Order ${order.order_number}: ${order.quantity ?? 1} x ${order.scooter_model}`,
+    `status ${order.status ?? 'pending'}`,
+    `ordered ${formatDate(order.order_date)}`,
+    order.estimated_delivery ? `estimated delivery ${formatDate(order.estimated_delivery)}` : null,
+    order.actual_delivery ? `delivered ${formatDate(order.actual_delivery)}` : null,
+    order.tracking_number ? `tracking number ${order.tracking_number}` : null,
+  ].filter(Boolean).join(', '));
+
+  const instruction = ambiguous
+    ? 'It is not clear which of these orders the customer means. Unless the question applies to all of them, list them briefly and ask the customer which order they mean.'
+    : 'Answer using these order details. Do not invent order details that are not listed.';
+
+  return `${lines.join('\n')}\n${instruction}`;
+}
+
+function findNamedOrders(query: string, orders: Order[]): Order[] {
+  const numbers = (query.match(ORDER_NUMBER_PATTERN) ?? []).map(number => number.toLowerCase());
+  return orders.filter(order => numbers.includes(order.order_number.toLowerCase()));
+}
+
+function formatDate(date: string | null): string {
+  if (!date) return 'unknown date';
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
@@ -0,0 +1,391 @@
+// LLM provider layer for the chat-assistant function.
+// Every provider implements the same `generate` contract; retry, timeout and
+// fallback behaviour live in `generateWithFallback` so they apply to all of them.
+
+// Base64-encoded image sent inline with a user message
+export interface ChatImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: ChatImage[];
+}
+
+export interface GenerateRequest {
+  messages: ChatMessage[];
+  onToken?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  // Whether the provider can take `images`; other providers only receive the text
+  supportsVision: boolean;
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public retryable = true) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface GenerationSettings {
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+const DEFAULT_SETTINGS: GenerationSettings = {
+  timeoutMs: 20000,
+  maxRetries: 2,
+};
+
+// Requests with images go to `visionModel`, since not every Gemini model accepts them
+export function createGeminiProvider({ apiKey, model = 'gemini-1.5-flash', visionModel = 'gemini-1.5-flash' }: { apiKey: string; model?: string; visionModel?: string }): LLMProvider {
+  const modelUrl = (name: string) => `https://generativelanguage.googleapis.com/v1beta/models/${name}`;
+
+  const toRequestBody = (messages: ChatMessage[]) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    // Gemini expects alternating user/model turns, so adjacent turns of one role are merged
+    type Part = { text: string } | { inline_data: { mime_type: string; data: string } };
+    const contents: { role: string; parts: Part[] }[] = [];
+    for (const m of messages.filter(m => m.role !== 'system')) {
+      const role = m.role === 'assistant' ? 'model' : 'user';
+      const parts: Part[] = [
+        { text: m.content },
+        ...(m.images ?? []).map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } })),
+      ];
+      const previous = contents[contents.length - 1];
+      if (previous?.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return JSON.stringify({
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      contents,
+    });
+  };
+
+  return {
+    name: 'gemini',
+    supportsVision: true,
+    async generate({ messages, onToken, signal }) {
+      const body = toRequestBody(messages);
+      const baseUrl = modelUrl(hasImages(messages) ? visionModel : model);
+
+      if (onToken) {
+        const response = await postJson(`${baseUrl}:streamGenerateContent?alt=sse&key=${apiKey}`, body, signal);
+        let answer = '';
+        for await (const data of readEventData(response)) {
+          const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (text) {
+            answer += text;
+            onToken(text);
+          }
+        }
+        return answer;
+      }
+
+      const response = await postJson(`${baseUrl}:generateContent?key=${apiKey}`, body, signal);
+      const data = await response.json();
+      return data.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider({ apiKey, baseUrl = 'https://api.openai.com/v1', model = 'gpt-4o-mini', visionModel = model }: { apiKey?: string; baseUrl?: string; model?: string; visionModel?: string }): LLMProvider {
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  // Images are sent as data URLs in multi-part user content
+  const toOpenAIMessage = ({ role, content, images }: ChatMessage) => images?.length
+    ? {
+        role,
+        content: [
+          { type: 'text', text: content },
+          ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        ],
+      }
+    : { role, content };
+
+  return {
+    name: 'openai',
+    supportsVision: true,
+    async generate({ messages, onToken, signal }) {
+      const body = JSON.stringify({
+        model: hasImages(messages) ? visionModel : model,
+        messages: messages.map(toOpenAIMessage),
+        stream: !!onToken,
+      });
+      const response = await postJson(`${baseUrl}/chat/completions`, body, signal, headers);
+
+      if (onToken) {
+        let answer = '';
+        for await (const data of readEventData(response)) {
+          const text = data.choices?.[0]?.delta?.content;
+          if (text) {
+            answer += text;
+            onToken(text);
+          }
+        }
+        return answer;
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
+
+// Ollama can only see images when a multimodal `visionModel` (e.g. llava) is configured
+export function createOllamaProvider({ baseUrl = 'http://localhost:11434', model = 'llama3', visionModel }: { baseUrl?: string; model?: string; visionModel?: string }): LLMProvider {
+  return {
+    name: 'ollama',
+    supportsVision: !!visionModel,
+    async generate({ messages, onToken, signal }) {
+      const body = JSON.stringify({
+        model: visionModel && hasImages(messages) ? visionModel : model,
+        messages: messages.map(({ role, content, images }) => ({
+          role,
+          content,
+          ...(images?.length ? { images: images.map(image => image.data) } : {}),
+        })),
+        stream: !!onToken,
+      });
+      const response = await postJson(`${baseUrl}/api/chat`, body, signal);
+
+      if (onToken) {
+        let answer = '';
+        for await (const data of readJsonLines(response)) {
+          const text = data.message?.content;
+          if (text) {
+            answer += text;
+            onToken(text);
+          }
+        }
+        return answer;
+      }
+
+      const data = await response.json();
+      return data.message?.content ?? '';
+    },
+  };
+}
+
+// Deterministic provider for exercising the whole pipeline offline: the answer
+// depends only on the last user message, and is streamed one word at a time.
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    supportsVision: true,
+    async generate({ messages, onToken }) {
+      const lastUser = [...messages].reverse().find(m => m.role === 'user');
+      const question = lastUser?.content ?? '';
+      const images = lastUser?.images?.length ? ` (with ${lastUser.images.length} image(s))` : '';
+      const answer = `This is a mock response to: "${question.trim()}"${images}. Configure LLM_PROVIDER to use a real model.`;
+
+      if (onToken) {
+        for (const word of answer.split(/(?<= )/)) {
+          onToken(word);
+        }
+      }
+      return answer;
+    },
+  };
+}
+
+export function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: Deno.env.get('GEMINI_API_KEY') ?? '',
+        model: Deno.env.get('GEMINI_MODEL') || undefined,
+        visionModel: Deno.env.get('GEMINI_VISION_MODEL') || undefined,
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        apiKey: Deno.env.get('OPENAI_API_KEY') || undefined,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || undefined,
+        model: Deno.env.get('OPENAI_MODEL') || undefined,
+        visionModel: Deno.env.get('OPENAI_VISION_MODEL') || undefined,
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: Deno.env.get('OLLAMA_BASE_URL') || undefined,
+        model: Deno.env.get('OLLAMA_MODEL') || undefined,
+        visionModel: Deno.env.get('OLLAMA_VISION_MODEL') || undefined,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+// Builds the provider chain from LLM_PROVIDER (primary, defaults to gemini) and
+// LLM_FALLBACK_PROVIDERS (optional comma-separated list tried in order).
+export function getProvidersFromEnv(): LLMProvider[] {
+  const primary = Deno.env.get('LLM_PROVIDER') || 'gemini';
+  const fallbacks = (Deno.env.get('LLM_FALLBACK_PROVIDERS') ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name && name !== primary);
+
+  return [primary, ...fallbacks].map(createProvider);
+}
+
+export function getGenerationSettingsFromEnv(): GenerationSettings {
+  return {
+    timeoutMs: readIntEnv('LLM_TIMEOUT_MS', DEFAULT_SETTINGS.timeoutMs, 1),
+    maxRetries: readIntEnv('LLM_MAX_RETRIES', DEFAULT_SETTINGS.maxRetries, 0),
+  };
+}
+
+// Unset, non-numeric or out-of-range values fall back to the default
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const raw = Deno.env.get(name)?.trim();
+  const value = Number(raw);
+  return raw && Number.isInteger(value) && value >= min ? value : fallback;
+}
+
+/**
+ * Generates a completion with the first provider that succeeds. Each provider is
+ * retried with exponential backoff on retryable errors. An attempt times out when no
+ * output arrives for `timeoutMs`: before the first token, or between streamed tokens,
+ * so long answers are not cut off while they are still streaming. Once tokens have been
+ * streamed to the caller no further attempts are made, since a retry would repeat text
+ * the user has already seen. Requests with images try vision-capable providers first;
+ * the others get the text of the request only.
+ */
+export async function generateWithFallback(
+  providers: LLMProvider[],
+  { messages, onToken }: Omit<GenerateRequest, 'signal'>,
+  settings: GenerationSettings = DEFAULT_SETTINGS
+): Promise<{ answer: string; provider: string }> {
+  let streamed = false;
+  const forward = onToken && ((text: string) => {
+    streamed = true;
+    onToken(text);
+  });
+  let lastError: unknown = null;
+
+  const withImages = hasImages(messages);
+  const ordered = withImages
+    ? [...providers.filter(p => p.supportsVision), ...providers.filter(p => !p.supportsVision)]
+    : providers;
+
+  for (const provider of ordered) {
+    const providerMessages = withImages && !provider.supportsVision ? withoutImages(messages) : messages;
+
+    for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+      const controller = new AbortController();
+      let timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+      const onChunk = forward && ((text: string) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+        forward(text);
+      });
+
+      try {
+        const answer = await provider.generate({ messages: providerMessages, onToken: onChunk, signal: controller.signal });
+        if (!answer.trim()) {
+          throw new ProviderError(`${provider.name} returned an empty response`);
+        }
+        return { answer, provider: provider.name };
+      } catch (error) {
+        lastError = error;
+        console.error(`LLM provider ${provider.name} failed (attempt ${attempt + 1}):`, error);
+
+        if (streamed) throw error;
+        if (error instanceof ProviderError && !error.retryable) break;
+        if (attempt < settings.maxRetries) {
+          await delay(250 * 2 ** attempt);
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  throw lastError ?? new Error('No LLM providers configured');
+}
+
+function hasImages(messages: ChatMessage[]): boolean {
+  return messages.some(m => m.images?.length);
+}
+
+function withoutImages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(({ images, ...message }) => images?.length
+    ? { ...message, content: `${message.content}\n\n[${images.length} image(s) attached that you cannot see. Tell the customer you are unable to view images right now.]` }
+    : message
+  );
+}
+
+async function postJson(url: string, body: string, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body,
+    signal,
+  });
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new ProviderError(`Request to ${new URL(url).host} failed with status ${response.status}: ${await response.text()}`, retryable);
+  }
+
+  return response;
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function* readLines(response: Response) {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+
+  if (buffer) yield buffer;
+}
+
+// Parses the `data:` payloads of an SSE response as JSON objects
+async function* readEventData(response: Response) {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+
+    const data = line.slice(5).trim();
+    if (data && data !== '[DONE]') {
+      yield JSON.parse(data);
+    }
+  }
+}
+
+// Parses a newline-delimited JSON response, as streamed by Ollama
+async function* readJsonLines(response: Response) {
+  for await (const line of readLines(response)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
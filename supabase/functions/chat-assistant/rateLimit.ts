@@ -0,0 +1,37 @@
+// Per-user and per-IP token buckets, kept in Postgres by `consume_rate_limit`.
+// Limits are configured by admins in `rate_limit_settings`.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { AssistantError } from "./errors.ts";
+
+type RateLimitScope = 'user' | 'ip';
+
+// Takes a token from the bucket and throws a `rate_limited` error when it is empty.
+// If the limiter itself fails the request is let through, so a database hiccup does
+// not take the assistant down.
+export async function enforceRateLimit(supabaseClient: SupabaseClient, scope: RateLimitScope, subject: string): Promise<void> {
+  const { data, error } = await supabaseClient
+    .rpc('consume_rate_limit', { bucket_scope: scope, bucket_subject: subject })
+    .single();
+
+  if (error) {
+    console.error(`Error checking ${scope} rate limit:`, error);
+    return;
+  }
+
+  if (!data.allowed) {
+    const retryAfter = Math.max(1, data.retry_after_seconds);
+    throw new AssistantError(
+      'rate_limited',
+      `You're sending messages too quickly. Please wait ${retryAfter} seconds and try again.`,
+      retryAfter
+    );
+  }
+}
+
+// Edge functions run behind the platform's proxy, so the client address comes from the
+// headers it sets. Clients can send their own X-Forwarded-For, so only the last hop,
+// the one the proxy appended, is trusted.
+export function getClientIp(req: Request): string | null {
+  const hops = req.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops?.length ? hops[hops.length - 1] : null;
+}
@@ -0,0 +1,45 @@
+// Semantic FAQ retrieval backed by the `match_qa_items` pgvector search
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { getEmbeddingProviderFromEnv, toVectorLiteral } from "../_shared/embeddings.ts";
+
+export interface FaqMatch {
+  id: string;
+  question: string;
+  answer: string;
+  keywords: string[] | null;
+  category_id: string | null;
+  view_count: number | null;
+  similarity: number;
+}
+
+const DEFAULT_MATCH_THRESHOLD = 0.85;
+const DEFAULT_TOP_K = 5;
+const DEFAULT_MIN_CONTEXT_SIMILARITY = 0.5;
+
+// Minimum similarity for answering straight from the FAQ instead of the LLM
+export function getFaqMatchThreshold(): number {
+  return Number(Deno.env.get('FAQ_MATCH_THRESHOLD')) || DEFAULT_MATCH_THRESHOLD;
+}
+
+// How many FAQ items are retrieved per query, and how similar an item must be to
+// be included in the prompt context
+export function getRetrievalSettings() {
+  return {
+    topK: Number(Deno.env.get('RAG_TOP_K')) || DEFAULT_TOP_K,
+    minSimilarity: Number(Deno.env.get('RAG_MIN_SIMILARITY')) || DEFAULT_MIN_CONTEXT_SIMILARITY,
+  };
+}
+
+export async function searchFaqItems(supabaseClient: SupabaseClient, query: string, matchCount = 5): Promise<FaqMatch[]> {
+  const provider = getEmbeddingProviderFromEnv();
+  const [embedding] = await provider.embed([query]);
+
+  const { data, error } = await supabaseClient.rpc('match_qa_items', {
+    query_embedding: toVectorLiteral(embedding),
+    embedding_model: provider.name,
+    match_count: matchCount,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
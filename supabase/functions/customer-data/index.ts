@@ -0,0 +1,387 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { corsHeaders } from "../_shared/cors.ts";
+import { RequestError, callerId, errorResponse, jsonResponse, requirePermission, requireString } from "../_shared/requests.ts";
+
+// Customer data rights. Called with `{ action, ... }`:
+//   export           customer       Returns a ZIP with data.json and every uploaded file
+//   request_deletion customer       Asks for the account and its data to be deleted
+//   cancel_deletion  customer       Withdraws a deletion request that is still pending
+//   review_deletion  users.manage   Rejects a request, or approves it and erases the account
+// Every action is recorded in data_request_events.
+
+const FILES_BUCKET = 'chat-files';
+// storage.remove() takes a bounded list of paths per call
+const STORAGE_BATCH_SIZE = 100;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'export': {
+        const userId = await requireCustomer(supabaseClient, req);
+        const archive = await exportCustomerData(supabaseClient, userId);
+        await recordEvent(supabaseClient, {
+          user_id: userId,
+          event_type: 'exported',
+          actor_type: 'customer',
+          actor_id: userId,
+          details: { files: archive.fileCount },
+        });
+        return new Response(archive.bytes, {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/octet-stream',
+            'Content-Disposition': `attachment; filename="${archive.fileName}"`,
+          },
+        });
+      }
+      case 'request_deletion': {
+        const userId = await requireCustomer(supabaseClient, req);
+        return jsonResponse(await requestDeletion(supabaseClient, userId, body));
+      }
+      case 'cancel_deletion': {
+        const userId = await requireCustomer(supabaseClient, req);
+        return jsonResponse(await cancelDeletion(supabaseClient, userId));
+      }
+      case 'review_deletion': {
+        const adminId = await requirePermission(supabaseClient, req, 'users.manage');
+        return jsonResponse(await reviewDeletion(supabaseClient, adminId, body));
+      }
+      default:
+        throw new RequestError(400, 'Unknown action');
+    }
+  } catch (error) {
+    return errorResponse(error, 'customer-data');
+  }
+});
+
+// Admin accounts are managed from the admin panel, not through these self-service actions
+async function requireCustomer(supabaseClient: SupabaseClient, req: Request): Promise<string> {
+  const userId = await callerId(supabaseClient, req);
+  const { data: profile } = await supabaseClient
+    .from('users')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+  if (!profile) {
+    throw new RequestError(403, 'Only customer accounts can use this');
+  }
+  return userId;
+}
+
+async function exportCustomerData(supabaseClient: SupabaseClient, userId: string) {
+  const [profile, sessions, files, orders, inquiries, escalations, interactions] = await Promise.all([
+    supabaseClient.from('users').select('*').eq('id', userId).single(),
+    supabaseClient.from('chat_sessions').select('*').eq('user_id', userId).order('created_at'),
+    supabaseClient.from('file_uploads').select('*').eq('user_id', userId).order('created_at'),
+    supabaseClient.from('orders').select('*').eq('user_id', userId).order('order_date'),
+    supabaseClient.from('order_inquiries').select('*').eq('user_id', userId).order('created_at'),
+    supabaseClient
+      .from('escalated_queries')
+      .select('*, escalation_replies(*), escalation_surveys(*)')
+      .eq('user_id', userId)
+      .order('created_at'),
+    supabaseClient.from('user_interactions').select('*').eq('user_id', userId).order('created_at'),
+  ]);
+
+  for (const result of [profile, sessions, files, orders, inquiries, escalations, interactions]) {
+    if (result.error) throw result.error;
+  }
+
+  const sessionIds = (sessions.data ?? []).map((session) => session.id);
+  const { data: messages, error: messagesError } = sessionIds.length
+    ? await supabaseClient.from('messages').select('*').in('session_id', sessionIds).order('created_at')
+    : { data: [], error: null };
+  if (messagesError) throw messagesError;
+
+  const exportedAt = new Date().toISOString();
+  const zip = new JSZip();
+  zip.file('data.json', JSON.stringify({
+    exported_at: exportedAt,
+    profile: profile.data,
+    chat_sessions: sessions.data,
+    messages,
+    files: files.data,
+    orders: orders.data,
+    order_inquiries: inquiries.data,
+    escalations: escalations.data,
+    interactions: interactions.data,
+  }, null, 2));
+
+  // Customers can write their own storage_path, so only objects in their folder are read
+  let fileCount = 0;
+  for (const file of files.data ?? []) {
+    if (!isInUserFolder(file.storage_path, userId)) {
+      console.error(`Skipping ${file.id} in export: stored outside the customer's folder`);
+      continue;
+    }
+    const { data: blob, error } = await supabaseClient.storage.from(FILES_BUCKET).download(file.storage_path);
+    if (error || !blob) {
+      console.error(`Skipping ${file.storage_path} in export:`, error);
+      continue;
+    }
+    zip.file(`files/${file.id}-${safeFileName(file.file_name)}`, await blob.arrayBuffer());
+    fileCount++;
+  }
+
+  return {
+    bytes: await zip.generateAsync({ type: 'uint8array' }),
+    fileName: `my-data-${exportedAt.slice(0, 10)}.zip`,
+    fileCount,
+  };
+}
+
+async function requestDeletion(supabaseClient: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const reason = typeof body.reason === 'string' ? body.reason.trim() || null : null;
+  const { data: profile } = await supabaseClient.from('users').select('email').eq('id', userId).single();
+
+  const { data: request, error } = await supabaseClient
+    .from('data_deletion_requests')
+    .insert({ user_id: userId, email: profile?.email ?? null, reason })
+    .select()
+    .single();
+  if (error) {
+    // Unique violation on the one-open-request-per-customer index
+    if (error.code === '23505') {
+      throw new RequestError(409, 'You already have a deletion request in progress');
+    }
+    throw error;
+  }
+
+  await recordEvent(supabaseClient, {
+    request_id: request.id,
+    user_id: userId,
+    event_type: 'deletion_requested',
+    actor_type: 'customer',
+    actor_id: userId,
+    details: { reason },
+  });
+  return request;
+}
+
+async function cancelDeletion(supabaseClient: SupabaseClient, userId: string) {
+  const { data: request, error } = await supabaseClient
+    .from('data_deletion_requests')
+    .update({ status: 'cancelled' })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!request) {
+    throw new RequestError(409, 'There is no pending deletion request to cancel');
+  }
+
+  await recordEvent(supabaseClient, {
+    request_id: request.id,
+    user_id: userId,
+    event_type: 'deletion_cancelled',
+    actor_type: 'customer',
+    actor_id: userId,
+  });
+  return request;
+}
+
+async function reviewDeletion(supabaseClient: SupabaseClient, adminId: string, body: Record<string, unknown>) {
+  const requestId = requireString(body.requestId, 'requestId');
+  const notes = typeof body.notes === 'string' ? body.notes.trim() || null : null;
+  if (body.decision !== 'approve' && body.decision !== 'reject') {
+    throw new RequestError(400, 'decision must be approve or reject');
+  }
+
+  const { data: request, error } = await supabaseClient
+    .from('data_deletion_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!request) {
+    throw new RequestError(404, 'Deletion request not found');
+  }
+
+  // An approved request whose deletion failed can be approved again to retry
+  const retry = request.status === 'approved' && body.decision === 'approve';
+  if (request.status !== 'pending' && !retry) {
+    throw new RequestError(409, `This request is already ${request.status}`);
+  }
+
+  if (body.decision === 'reject') {
+    const { data: rejected, error: rejectError } = await supabaseClient
+      .from('data_deletion_requests')
+      .update({
+        status: 'rejected',
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes,
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select()
+      .single();
+    if (rejectError) throw rejectError;
+
+    await recordEvent(supabaseClient, {
+      request_id: requestId,
+      user_id: request.user_id,
+      event_type: 'deletion_rejected',
+      actor_type: 'admin',
+      actor_id: adminId,
+      details: { notes },
+    });
+    return rejected;
+  }
+
+  if (!retry) {
+    const { error: approveError } = await supabaseClient
+      .from('data_deletion_requests')
+      .update({
+        status: 'approved',
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes,
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending');
+    if (approveError) throw approveError;
+
+    await recordEvent(supabaseClient, {
+      request_id: requestId,
+      user_id: request.user_id,
+      event_type: 'deletion_approved',
+      actor_type: 'admin',
+      actor_id: adminId,
+      details: { notes },
+    });
+  }
+
+  let summary: Record<string, unknown>;
+  try {
+    summary = await eraseCustomer(supabaseClient, request.user_id);
+  } catch (eraseError) {
+    await recordEvent(supabaseClient, {
+      request_id: requestId,
+      user_id: request.user_id,
+      event_type: 'deletion_failed',
+      actor_type: 'system',
+      details: { error: eraseError instanceof Error ? eraseError.message : String(eraseError) },
+    });
+    throw new RequestError(500, 'Deletion failed part way through. Approve the request again to retry.');
+  }
+
+  const { data: completed, error: completeError } = await supabaseClient
+    .from('data_deletion_requests')
+    .update({ status: 'completed', completed_at: new Date().toISOString(), summary })
+    .eq('id', requestId)
+    .select()
+    .single();
+  if (completeError) throw completeError;
+
+  await recordEvent(supabaseClient, {
+    request_id: requestId,
+    user_id: request.user_id,
+    event_type: 'deletion_completed',
+    actor_type: 'admin',
+    actor_id: adminId,
+    details: summary,
+  });
+  return completed;
+}
+
+// Storage first, then database rows, then the login. Each step can be repeated safely,
+// so a failed run is retried from the start.
+async function eraseCustomer(supabaseClient: SupabaseClient, userId: string) {
+  const { data: files, error: filesError } = await supabaseClient
+    .from('file_uploads')
+    .select('storage_path')
+    .eq('user_id', userId);
+  if (filesError) throw filesError;
+
+  // Rows pointing outside the customer's folder are ignored, as those objects are not theirs
+  const paths = new Set((files ?? [])
+    .map((file) => file.storage_path)
+    .filter((path) => isInUserFolder(path, userId)));
+  for (const path of await listUserObjects(supabaseClient, userId)) {
+    paths.add(path);
+  }
+
+  const allPaths = [...paths];
+  for (let i = 0; i < allPaths.length; i += STORAGE_BATCH_SIZE) {
+    const { error } = await supabaseClient.storage
+      .from(FILES_BUCKET)
+      .remove(allPaths.slice(i, i + STORAGE_BATCH_SIZE));
+    if (error) throw error;
+  }
+
+  const { data: counts, error: eraseError } = await supabaseClient.rpc('erase_customer_data', {
+    target_user_id: userId,
+  });
+  if (eraseError) throw eraseError;
+
+  // Deleting the login cascades to the profile in public.users
+  const { error: deleteError } = await supabaseClient.auth.admin.deleteUser(userId);
+  if (deleteError && deleteError.status !== 404) throw deleteError;
+
+  return { ...counts, storage_objects: allPaths.length };
+}
+
+// Uploads live at `<user>/<session>/<file>`, so two levels of listing find them all
+async function listUserObjects(supabaseClient: SupabaseClient, userId: string): Promise<string[]> {
+  const bucket = supabaseClient.storage.from(FILES_BUCKET);
+  const { data: folders, error } = await bucket.list(userId, { limit: 1000 });
+  if (error) throw error;
+
+  const paths: string[] = [];
+  for (const entry of folders ?? []) {
+    // Folders come back without an id
+    if (entry.id) {
+      paths.push(`${userId}/${entry.name}`);
+      continue;
+    }
+    const { data: objects, error: listError } = await bucket.list(`${userId}/${entry.name}`, { limit: 1000 });
+    if (listError) throw listError;
+    for (const object of objects ?? []) {
+      paths.push(`${userId}/${entry.name}/${object.name}`);
+    }
+  }
+  return paths;
+}
+
+function isInUserFolder(path: string, userId: string): boolean {
+  return path.startsWith(`${userId}/`) && !path.split('/').includes('..');
+}
+
+// A plain file name for a ZIP entry, without directories or characters that could escape
+// the files/ folder when the archive is extracted
+function safeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[^\w.\- ]/g, '_').replace(/^\.+/, '').trim();
+  return cleaned || 'file';
+}
+
+interface DataRequestEvent {
+  request_id?: string;
+  user_id: string;
+  event_type: string;
+  actor_type: 'admin' | 'customer' | 'system';
+  actor_id?: string;
+  details?: Record<string, unknown>;
+}
+
+async function recordEvent(supabaseClient: SupabaseClient, event: DataRequestEvent) {
+  const { error } = await supabaseClient.from('data_request_events').insert(event);
+  if (error) {
+    console.error('Error recording data request event:', error);
+  }
+}
@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import { bearerToken, errorResponse, jsonResponse, requirePermission } from "../_shared/requests.ts";
+
+// Applies the retention policies. Called nightly by pg_cron with the service role key,
+// or from Data Retention in the admin panel by an admin with `settings.manage`.
+// Each run is recorded in retention_runs.
+
+const FILES_BUCKET = 'chat-files';
+// storage.remove() takes a bounded list of paths per call
+const STORAGE_BATCH_SIZE = 100;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const triggeredBy = bearerToken(req) === serviceRoleKey
+      ? null
+      : await requirePermission(supabaseClient, req, 'settings.manage');
+
+    return jsonResponse(await runRetention(supabaseClient, triggeredBy));
+  } catch (error) {
+    return errorResponse(error, 'data-retention');
+  }
+});
+
+async function runRetention(supabaseClient: SupabaseClient, triggeredBy: string | null) {
+  const startedAt = new Date().toISOString();
+  let results: Record<string, number> = {};
+  let storageObjectsRemoved = 0;
+  let runError: string | null = null;
+
+  try {
+    const { data, error } = await supabaseClient.rpc('apply_retention_policies');
+    if (error) throw error;
+    results = data.results;
+
+    // The rows are already gone, so objects that fail to delete are only logged
+    const paths: string[] = data.storage_paths;
+    for (let i = 0; i < paths.length; i += STORAGE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + STORAGE_BATCH_SIZE);
+      const { error: removeError } = await supabaseClient.storage.from(FILES_BUCKET).remove(batch);
+      if (removeError) {
+        console.error('Error removing expired files:', removeError);
+        runError = `Could not remove some files: ${removeError.message}`;
+        continue;
+      }
+      storageObjectsRemoved += batch.length;
+    }
+  } catch (error) {
+    console.error('Error applying retention policies:', error);
+    runError = error.message;
+  }
+
+  const { data: run, error: runInsertError } = await supabaseClient
+    .from('retention_runs')
+    .insert({
+      triggered_by: triggeredBy,
+      results,
+      storage_objects_removed: storageObjectsRemoved,
+      error: runError,
+      started_at: startedAt,
+    })
+    .select()
+    .single();
+  if (runInsertError) throw runInsertError;
+
+  return run;
+}
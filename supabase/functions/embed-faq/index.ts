@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getEmbeddingProviderFromEnv, toVectorLiteral } from "../_shared/embeddings.ts";
+
+// Refreshes FAQ embeddings. Called by FAQ Management after an item is saved
+// (`{ qaItemId }`) or without an id to backfill every stale item.
+
+const BATCH_SIZE = 16;
+
+interface QAItem {
+  id: string;
+  question: string;
+  answer: string;
+  keywords: string[] | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only admins who can edit the FAQ may rebuild the index
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+    const { data: canManageFaq } = user
+      ? await supabaseClient.rpc('has_admin_permission', { user_id: user.id, required_permission: 'faq.manage' })
+      : { data: false };
+
+    if (!canManageFaq) {
+      return jsonResponse({ error: 'FAQ management permission required' }, 403);
+    }
+
+    const { qaItemId } = await req.json().catch(() => ({}));
+
+    let itemsQuery = supabaseClient
+      .from('qa_items')
+      .select('id, question, answer, keywords');
+
+    if (qaItemId) {
+      itemsQuery = itemsQuery.eq('id', qaItemId);
+    }
+
+    const { data: items, error: itemsError } = await itemsQuery;
+    if (itemsError) throw itemsError;
+
+    const provider = getEmbeddingProviderFromEnv();
+    const { data: existing } = await supabaseClient
+      .from('qa_item_embeddings')
+      .select('qa_item_id, content_hash, model')
+      .in('qa_item_id', (items || []).map((item: QAItem) => item.id));
+
+    const existingById = new Map((existing || []).map(row => [row.qa_item_id, row]));
+    const stale: { item: QAItem; hash: string }[] = [];
+
+    for (const item of (items || []) as QAItem[]) {
+      const hash = await hashContent(questionText(item) + '\n' + item.answer);
+      const current = existingById.get(item.id);
+      if (!current || current.content_hash !== hash || current.model !== provider.name) {
+        stale.push({ item, hash });
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+      const batch = stale.slice(i, i + BATCH_SIZE);
+      const embeddings = await provider.embed([
+        ...batch.map(({ item }) => questionText(item)),
+        ...batch.map(({ item }) => item.answer),
+      ]);
+
+      const { error: upsertError } = await supabaseClient
+        .from('qa_item_embeddings')
+        .upsert(batch.map(({ item, hash }, index) => ({
+          qa_item_id: item.id,
+          question_embedding: toVectorLiteral(embeddings[index]),
+          answer_embedding: toVectorLiteral(embeddings[batch.length + index]),
+          model: provider.name,
+          content_hash: hash,
+        })));
+
+      if (upsertError) throw upsertError;
+    }
+
+    console.log(`Embedded ${stale.length} FAQ item(s) with ${provider.name}`);
+
+    return jsonResponse({
+      updated: stale.length,
+      skipped: (items || []).length - stale.length,
+      model: provider.name,
+    });
+  } catch (error) {
+    console.error('Error in embed-faq:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+// Keywords are embedded with the question so admins can steer matching with them
+function questionText(item: QAItem): string {
+  return item.keywords?.length
+    ? `${item.question}\nKeywords: ${item.keywords.join(', ')}`
+    : item.question;
+}
+
+async function hashContent(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
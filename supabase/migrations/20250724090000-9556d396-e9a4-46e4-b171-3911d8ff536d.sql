@@ -0,0 +1,6 @@
+-- Track how much of a session the rolling summary already covers, so the chat
+-- assistant only loads and summarizes messages written after that point. Messages can
+-- share a timestamp, so the position is the last summarized message's (created_at, id).
+ALTER TABLE public.chat_sessions
+ADD COLUMN summarized_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN summarized_until_id UUID;
@@ -0,0 +1,76 @@
+-- Semantic FAQ search with pgvector
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- One row per FAQ item holding embeddings of its question and answer.
+-- Embeddings are written by the embed-faq edge function whenever an item is saved.
+CREATE TABLE public.qa_item_embeddings (
+  qa_item_id UUID PRIMARY KEY REFERENCES public.qa_items(id) ON DELETE CASCADE,
+  question_embedding extensions.vector(384) NOT NULL,
+  answer_embedding extensions.vector(384) NOT NULL,
+  model TEXT NOT NULL, -- Embedding provider that produced the vectors
+  content_hash TEXT NOT NULL, -- Hash of the embedded text, used to skip unchanged items
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.qa_item_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view QA item embeddings"
+ON public.qa_item_embeddings
+FOR SELECT
+USING (public.is_admin_user(auth.uid()));
+
+CREATE INDEX idx_qa_item_embeddings_question ON public.qa_item_embeddings
+  USING hnsw (question_embedding extensions.vector_cosine_ops);
+CREATE INDEX idx_qa_item_embeddings_answer ON public.qa_item_embeddings
+  USING hnsw (answer_embedding extensions.vector_cosine_ops);
+
+CREATE TRIGGER update_qa_item_embeddings_updated_at
+  BEFORE UPDATE ON public.qa_item_embeddings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Nearest-neighbour search over question and answer embeddings. Each side is searched
+-- through its own index; answer matches are weighted slightly lower than question matches.
+CREATE OR REPLACE FUNCTION public.match_qa_items(
+  query_embedding extensions.vector(384),
+  embedding_model text,
+  match_count integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  question text,
+  answer text,
+  keywords text[],
+  category_id uuid,
+  view_count integer,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH candidates AS (
+    (
+      SELECT e.qa_item_id, 1 - (e.question_embedding OPERATOR(extensions.<=>) query_embedding) AS similarity
+      FROM public.qa_item_embeddings e
+      WHERE e.model = embedding_model
+      ORDER BY e.question_embedding OPERATOR(extensions.<=>) query_embedding
+      LIMIT match_count * 2
+    )
+    UNION ALL
+    (
+      SELECT e.qa_item_id, 0.9 * (1 - (e.answer_embedding OPERATOR(extensions.<=>) query_embedding)) AS similarity
+      FROM public.qa_item_embeddings e
+      WHERE e.model = embedding_model
+      ORDER BY e.answer_embedding OPERATOR(extensions.<=>) query_embedding
+      LIMIT match_count * 2
+    )
+  )
+  SELECT q.id, q.question, q.answer, q.keywords, q.category_id, q.view_count, MAX(c.similarity) AS similarity
+  FROM candidates c
+  JOIN public.qa_items q ON q.id = c.qa_item_id
+  WHERE q.is_active = true
+  GROUP BY q.id
+  ORDER BY similarity DESC
+  LIMIT match_count;
+$$;
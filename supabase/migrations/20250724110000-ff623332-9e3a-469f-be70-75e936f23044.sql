@@ -0,0 +1,38 @@
+-- Intent patterns used by chat-assistant to classify user queries.
+-- Patterns are evaluated in sort_order and the first match wins. Regex patterns are
+-- JavaScript regular expressions tested case-insensitively against the query.
+CREATE TABLE public.intent_patterns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  intent TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'regex' CHECK (match_type IN ('regex', 'keyword')),
+  -- Keyword patterns only: fraction of the comma-separated keywords that must appear in the query
+  confidence_threshold NUMERIC NOT NULL DEFAULT 0.5 CHECK (confidence_threshold > 0 AND confidence_threshold <= 1),
+  description TEXT,
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES public.admin_users(id)
+);
+
+ALTER TABLE public.intent_patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage intent patterns" ON public.intent_patterns
+  FOR ALL USING (public.is_admin_user(auth.uid()));
+
+CREATE INDEX idx_intent_patterns_sort_order ON public.intent_patterns(sort_order);
+
+CREATE TRIGGER update_intent_patterns_updated_at
+  BEFORE UPDATE ON public.intent_patterns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starter intents
+INSERT INTO public.intent_patterns (intent, pattern, match_type, confidence_threshold, description, sort_order) VALUES
+  ('human_agent', '\b(human|real person|agent|representative|speak to (someone|somebody))\b', 'regex', 0.5, 'Customer asks to talk to a person', 10),
+  ('order_status', '\b(where is|track(ing)?|status of|has .* shipped|when will .* (arrive|ship))\b.*\border\b|\border\b.*\b(status|track(ing)?|arrived?|shipped|delivered)\b', 'regex', 0.5, 'Customer asks about the progress of an order', 20),
+  ('order_cancellation', 'cancel, order', 'keyword', 1, 'Customer wants to cancel an order', 30),
+  ('refund_request', '\b(refund|money back|return (my|the|a))\b', 'regex', 0.5, 'Customer asks for a refund or return', 40),
+  ('warranty_claim', 'warranty, broken, defect, repair, claim', 'keyword', 0.4, 'Customer reports a defect covered by warranty', 50),
+  ('shipping_inquiry', 'shipping, delivery, deliver, ship, courier', 'keyword', 0.2, 'General shipping and delivery questions', 60),
+  ('technical_issue', 'battery, charge, charging, error, not working, won''t start, brake, motor', 'keyword', 0.125, 'Problems using the scooter', 70);
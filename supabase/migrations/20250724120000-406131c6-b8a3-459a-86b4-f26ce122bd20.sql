@@ -0,0 +1,12 @@
+-- Action chat-assistant takes when an intent is detected:
+--   faq           answer from the FAQ / LLM as usual
+--   order_lookup  answer with the live status of the customer's order
+--   order_inquiry open an order_inquiries record (inquiry_type = intent) for the order
+--   escalate      open an escalated_queries ticket for human support
+ALTER TABLE public.intent_patterns
+  ADD COLUMN action TEXT NOT NULL DEFAULT 'faq'
+  CHECK (action IN ('faq', 'order_lookup', 'order_inquiry', 'escalate'));
+
+UPDATE public.intent_patterns SET action = 'escalate' WHERE intent = 'human_agent';
+UPDATE public.intent_patterns SET action = 'order_lookup' WHERE intent = 'order_status';
+UPDATE public.intent_patterns SET action = 'order_inquiry' WHERE intent IN ('order_cancellation', 'refund_request');
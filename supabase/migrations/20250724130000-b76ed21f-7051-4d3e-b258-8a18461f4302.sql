@@ -0,0 +1,88 @@
+-- Token-bucket rate limits for the chat-assistant edge function.
+-- Every request takes one token from the caller's user bucket and from the bucket of
+-- their IP address. Buckets refill continuously up to their capacity.
+CREATE TABLE public.rate_limit_settings (
+  scope TEXT PRIMARY KEY CHECK (scope IN ('user', 'ip')),
+  capacity INTEGER NOT NULL CHECK (capacity > 0), -- Burst size
+  refill_per_minute NUMERIC NOT NULL CHECK (refill_per_minute > 0), -- Sustained requests per minute
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES public.admin_users(id)
+);
+
+CREATE TABLE public.rate_limit_buckets (
+  key TEXT PRIMARY KEY, -- '<scope>:<user id or IP address>'
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.rate_limit_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage rate limit settings" ON public.rate_limit_settings
+  FOR ALL USING (public.is_admin_user(auth.uid()));
+
+-- rate_limit_buckets has no policies: it is only written through consume_rate_limit
+
+-- Idle buckets are full again and can be deleted by age
+CREATE INDEX idx_rate_limit_buckets_updated_at ON public.rate_limit_buckets(updated_at);
+
+CREATE TRIGGER update_rate_limit_settings_updated_at
+  BEFORE UPDATE ON public.rate_limit_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.rate_limit_settings (scope, capacity, refill_per_minute) VALUES
+  ('user', 20, 6),
+  ('ip', 60, 20);
+
+-- Takes one token from a bucket. When the bucket is empty the request is not allowed and
+-- retry_after_seconds says when the next token becomes available. Scopes without
+-- settings, or with limits disabled, always allow.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(bucket_scope text, bucket_subject text)
+RETURNS TABLE (allowed boolean, remaining integer, retry_after_seconds integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  settings public.rate_limit_settings%ROWTYPE;
+  bucket_key text := bucket_scope || ':' || bucket_subject;
+  refill_per_second double precision;
+  current_tokens double precision;
+  last_update timestamp with time zone;
+  available double precision;
+BEGIN
+  SELECT * INTO settings FROM public.rate_limit_settings WHERE scope = bucket_scope;
+  IF NOT FOUND OR NOT settings.is_enabled THEN
+    RETURN QUERY SELECT true, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  refill_per_second := settings.refill_per_minute / 60.0;
+
+  INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+  VALUES (bucket_key, settings.capacity, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  -- Lock the bucket so concurrent requests cannot spend the same token
+  SELECT b.tokens, b.updated_at INTO current_tokens, last_update
+  FROM public.rate_limit_buckets b
+  WHERE b.key = bucket_key
+  FOR UPDATE;
+
+  available := LEAST(
+    settings.capacity::double precision,
+    current_tokens + EXTRACT(EPOCH FROM (NOW() - last_update)) * refill_per_second
+  );
+
+  IF available >= 1 THEN
+    UPDATE public.rate_limit_buckets SET tokens = available - 1, updated_at = NOW() WHERE key = bucket_key;
+    RETURN QUERY SELECT true, FLOOR(available - 1)::integer, 0;
+  ELSE
+    UPDATE public.rate_limit_buckets SET tokens = available, updated_at = NOW() WHERE key = bucket_key;
+    RETURN QUERY SELECT false, 0, CEIL((1 - available) / refill_per_second)::integer;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(text, text) FROM PUBLIC, anon, authenticated;
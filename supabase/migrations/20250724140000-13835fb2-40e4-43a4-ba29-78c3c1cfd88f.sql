@@ -0,0 +1,27 @@
+-- Thresholds for chat-assistant's automatic escalation to human support.
+-- A conversation is escalated as soon as any enabled signal reaches its threshold.
+CREATE TABLE public.auto_escalation_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Answers below this confidence count as low-confidence
+  low_confidence_threshold NUMERIC NOT NULL DEFAULT 0.6 CHECK (low_confidence_threshold > 0 AND low_confidence_threshold <= 1),
+  -- Consecutive low-confidence answers that trigger escalation, 0 to disable
+  low_confidence_streak INTEGER NOT NULL DEFAULT 3 CHECK (low_confidence_streak >= 0),
+  -- Times the customer may rephrase the same question before escalation, 0 to disable
+  rephrase_limit INTEGER NOT NULL DEFAULT 2 CHECK (rephrase_limit >= 0),
+  -- Messages with frustrated wording that trigger escalation, 0 to disable
+  frustration_limit INTEGER NOT NULL DEFAULT 2 CHECK (frustration_limit >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES public.admin_users(id)
+);
+
+ALTER TABLE public.auto_escalation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage auto escalation settings" ON public.auto_escalation_settings
+  FOR ALL USING (public.is_admin_user(auth.uid()));
+
+CREATE TRIGGER update_auto_escalation_settings_updated_at
+  BEFORE UPDATE ON public.auto_escalation_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.auto_escalation_settings (id) VALUES (TRUE);
@@ -0,0 +1,94 @@
+-- Helpfulness ratings used to calibrate chat-assistant confidence scores.
+-- MessageRating stores each thumbs up/down in user_interactions.metadata as
+-- { action_type: 'rating', message_id, is_helpful }.
+CREATE INDEX idx_user_interactions_rated_message ON public.user_interactions ((metadata->>'message_id'))
+  WHERE metadata->>'action_type' = 'rating';
+
+CREATE INDEX idx_messages_qa_item_id ON public.messages(qa_item_id);
+
+-- Ratings of assistant answers per FAQ item the answer was based on. Only the latest
+-- rating of each answer counts. Pass NULL item_ids to report on every item.
+CREATE OR REPLACE FUNCTION public.qa_item_feedback(
+  item_ids uuid[] DEFAULT NULL,
+  since timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  qa_item_id uuid,
+  answers integer,
+  helpful_count integer,
+  unhelpful_count integer,
+  avg_confidence double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    m.qa_item_id,
+    COUNT(*)::integer AS answers,
+    COUNT(*) FILTER (WHERE rating.is_helpful)::integer AS helpful_count,
+    COUNT(*) FILTER (WHERE NOT rating.is_helpful)::integer AS unhelpful_count,
+    AVG((m.metadata->>'confidence_score')::double precision) AS avg_confidence
+  FROM public.messages m
+  LEFT JOIN LATERAL (
+    SELECT (r.metadata->>'is_helpful')::boolean AS is_helpful
+    FROM public.user_interactions r
+    WHERE r.metadata->>'action_type' = 'rating'
+      AND r.metadata->>'message_id' = m.id::text
+    ORDER BY r.created_at DESC
+    LIMIT 1
+  ) rating ON true
+  WHERE m.message_type = 'assistant'
+    AND m.qa_item_id IS NOT NULL
+    AND (item_ids IS NULL OR m.qa_item_id = ANY(item_ids))
+    AND (since IS NULL OR m.created_at >= since)
+  GROUP BY m.qa_item_id;
+$$;
+
+-- Stated confidence against actual helpfulness, in confidence bands of 0.1 per
+-- response source. A well calibrated assistant has a helpful rate close to the
+-- average confidence of each band.
+CREATE OR REPLACE FUNCTION public.confidence_calibration(
+  since timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  response_source text,
+  confidence_band integer,
+  answers integer,
+  rated integer,
+  helpful integer,
+  avg_confidence double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH answers AS (
+    SELECT
+      COALESCE(m.metadata->>'response_source', 'unknown') AS response_source,
+      (m.metadata->>'confidence_score')::double precision AS confidence,
+      rating.is_helpful
+    FROM public.messages m
+    LEFT JOIN LATERAL (
+      SELECT (r.metadata->>'is_helpful')::boolean AS is_helpful
+      FROM public.user_interactions r
+      WHERE r.metadata->>'action_type' = 'rating'
+        AND r.metadata->>'message_id' = m.id::text
+      ORDER BY r.created_at DESC
+      LIMIT 1
+    ) rating ON true
+    WHERE m.message_type = 'assistant'
+      AND m.metadata ? 'confidence_score'
+      AND (since IS NULL OR m.created_at >= since)
+  )
+  SELECT
+    a.response_source,
+    LEAST(FLOOR(a.confidence * 10), 9)::integer AS confidence_band,
+    COUNT(*)::integer AS answers,
+    COUNT(a.is_helpful)::integer AS rated,
+    COUNT(*) FILTER (WHERE a.is_helpful)::integer AS helpful,
+    AVG(a.confidence) AS avg_confidence
+  FROM answers a
+  GROUP BY 1, 2
+  ORDER BY 2, 1;
+$$;
@@ -0,0 +1,46 @@
+-- Live agent handoff: an admin takes over a chat session and talks to the customer
+-- directly. chat-assistant does not answer while a session has an agent.
+ALTER TYPE public.message_type ADD VALUE IF NOT EXISTS 'agent';
+
+ALTER TABLE public.chat_sessions
+ADD COLUMN agent_id UUID REFERENCES public.admin_users(id),
+ADD COLUMN agent_joined_at TIMESTAMP WITH TIME ZONE;
+
+CREATE POLICY "Admins can update chat sessions" ON public.chat_sessions
+  FOR UPDATE USING (public.is_admin_user(auth.uid()));
+
+-- Only admins may take over a session or hand it back to the assistant
+CREATE OR REPLACE FUNCTION public.protect_session_agent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user(auth.uid()) THEN
+    NEW.agent_id := OLD.agent_id;
+    NEW.agent_joined_at := OLD.agent_joined_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_chat_session_agent
+  BEFORE UPDATE ON public.chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_session_agent();
+
+-- Customers write their own messages only; agent replies come from admins. The enum
+-- value added above cannot be used as a literal in the same transaction, hence ::text.
+DROP POLICY "Users can create messages in their sessions" ON public.messages;
+CREATE POLICY "Users can create messages in their sessions" ON public.messages
+  FOR INSERT WITH CHECK (
+    message_type::text = 'user'
+    AND EXISTS (SELECT 1 FROM public.chat_sessions WHERE id = session_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can send agent messages" ON public.messages
+  FOR INSERT WITH CHECK (public.is_admin_user(auth.uid()) AND message_type::text = 'agent');
+
+-- Agents see when the customer is typing
+CREATE POLICY "Admins can view typing status" ON public.typing_status
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
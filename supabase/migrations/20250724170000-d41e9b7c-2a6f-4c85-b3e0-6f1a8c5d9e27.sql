@@ -0,0 +1,126 @@
+-- Who wrote each message. Agent messages reference the admin who sent them; system
+-- notices about the conversation (escalations, agents joining or leaving, order
+-- updates) are written by the triggers below and carry `metadata.event`.
+ALTER TABLE public.messages
+ADD COLUMN author_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_author_id ON public.messages(author_id);
+
+DROP POLICY "Admins can send agent messages" ON public.messages;
+CREATE POLICY "Admins can send agent messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    public.is_admin_user(auth.uid())
+    AND message_type = 'agent'
+    AND author_id = auth.uid()
+  );
+
+CREATE OR REPLACE FUNCTION public.add_system_message(
+  target_session_id uuid,
+  message_content text,
+  message_metadata jsonb,
+  message_author_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  INSERT INTO public.messages (session_id, message_type, content, metadata, author_id)
+  VALUES (target_session_id, 'system', message_content, message_metadata, message_author_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_system_message(uuid, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_session_agent_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  agent_name text;
+BEGIN
+  IF NEW.agent_id IS NOT NULL THEN
+    SELECT full_name INTO agent_name FROM public.admin_users WHERE id = NEW.agent_id;
+    PERFORM public.add_system_message(
+      NEW.id,
+      COALESCE(agent_name, 'A support agent') || ' from our support team joined the chat',
+      jsonb_build_object('event', 'agent_joined'),
+      NEW.agent_id
+    );
+  ELSE
+    SELECT full_name INTO agent_name FROM public.admin_users WHERE id = OLD.agent_id;
+    PERFORM public.add_system_message(
+      NEW.id,
+      COALESCE(agent_name, 'The support agent') || ' left the chat. The assistant will answer your questions again.',
+      jsonb_build_object('event', 'agent_left'),
+      OLD.agent_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_session_agent_message
+  AFTER UPDATE OF agent_id ON public.chat_sessions
+  FOR EACH ROW
+  WHEN (OLD.agent_id IS DISTINCT FROM NEW.agent_id)
+  EXECUTE FUNCTION public.notify_session_agent_change();
+
+CREATE OR REPLACE FUNCTION public.notify_session_escalation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.add_system_message(
+    NEW.session_id,
+    'Your question was passed to our support team',
+    jsonb_build_object('event', 'escalated', 'escalation_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_escalation_session_message
+  AFTER INSERT ON public.escalated_queries
+  FOR EACH ROW
+  WHEN (NEW.session_id IS NOT NULL)
+  EXECUTE FUNCTION public.notify_session_escalation();
+
+-- Order status changes are announced in the customer's most recent active chat
+CREATE OR REPLACE FUNCTION public.notify_order_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  active_session_id uuid;
+BEGIN
+  SELECT id INTO active_session_id
+  FROM public.chat_sessions
+  WHERE user_id = NEW.user_id AND is_active = true
+  ORDER BY updated_at DESC
+  LIMIT 1;
+
+  IF active_session_id IS NOT NULL THEN
+    PERFORM public.add_system_message(
+      active_session_id,
+      'Order ' || NEW.order_number || ' is now ' || NEW.status::text,
+      jsonb_build_object('event', 'order_updated', 'order_id', NEW.id, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_order_update_message
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.notify_order_update();
@@ -0,0 +1,97 @@
+-- Conversation thread on each escalation between the customer and the support team
+CREATE TABLE public.escalation_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  escalation_id UUID NOT NULL REFERENCES public.escalated_queries(id) ON DELETE CASCADE,
+  sender TEXT NOT NULL CHECK (sender IN ('customer', 'agent')),
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- Set for customer replies
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL, -- Set for agent replies
+  content TEXT NOT NULL CHECK (length(btrim(content)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE -- When the other side first saw the reply
+);
+
+ALTER TABLE public.escalation_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view replies on their escalations" ON public.escalation_replies
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.escalated_queries WHERE id = escalation_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can reply to their escalations" ON public.escalation_replies
+  FOR INSERT WITH CHECK (
+    sender = 'customer'
+    AND user_id = auth.uid()
+    AND admin_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.escalated_queries WHERE id = escalation_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view all escalation replies" ON public.escalation_replies
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+CREATE POLICY "Admins can reply to escalations" ON public.escalation_replies
+  FOR INSERT WITH CHECK (
+    public.is_admin_user(auth.uid())
+    AND sender = 'agent'
+    AND admin_id = auth.uid()
+    AND user_id IS NULL
+  );
+
+CREATE INDEX idx_escalation_replies_escalation_id ON public.escalation_replies(escalation_id, created_at);
+
+ALTER TABLE public.escalation_replies REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.escalation_replies;
+
+-- Marks the other side's replies on an escalation as read by the caller
+CREATE OR REPLACE FUNCTION public.mark_escalation_replies_read(target_escalation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  reader_sender text;
+BEGIN
+  IF public.is_admin_user(auth.uid()) THEN
+    reader_sender := 'agent';
+  ELSIF EXISTS (SELECT 1 FROM public.escalated_queries WHERE id = target_escalation_id AND user_id = auth.uid()) THEN
+    reader_sender := 'customer';
+  ELSE
+    RAISE EXCEPTION 'Not allowed to read this escalation';
+  END IF;
+
+  UPDATE public.escalation_replies
+  SET read_at = now()
+  WHERE escalation_id = target_escalation_id
+    AND sender <> reader_sender
+    AND read_at IS NULL;
+END;
+$$;
+
+-- Tell the support team when a customer answers
+CREATE OR REPLACE FUNCTION public.notify_escalation_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.create_admin_notification(
+    'escalation_reply',
+    'Customer Replied',
+    'A customer replied to an escalated query',
+    jsonb_build_object(
+      'escalation_id', NEW.escalation_id,
+      'reply_id', NEW.id,
+      'user_id', NEW.user_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_escalation_reply_notification
+  AFTER INSERT ON public.escalation_replies
+  FOR EACH ROW
+  WHEN (NEW.sender = 'customer')
+  EXECUTE FUNCTION public.notify_escalation_reply();
@@ -0,0 +1,146 @@
+-- Escalation priorities, assignment and SLA deadlines
+CREATE TYPE public.escalation_priority AS ENUM ('low', 'medium', 'high', 'urgent');
+
+-- How long support has to resolve an escalation of each priority
+CREATE TABLE public.escalation_sla_policies (
+  priority public.escalation_priority PRIMARY KEY,
+  resolution_minutes INTEGER NOT NULL CHECK (resolution_minutes > 0),
+  -- Admins are warned this long before the deadline
+  warning_minutes INTEGER NOT NULL CHECK (warning_minutes >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.escalation_sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage escalation SLA policies" ON public.escalation_sla_policies
+  FOR ALL USING (public.is_admin_user(auth.uid()));
+
+CREATE TRIGGER update_escalation_sla_policies_updated_at
+  BEFORE UPDATE ON public.escalation_sla_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.escalation_sla_policies (priority, resolution_minutes, warning_minutes) VALUES
+  ('urgent', 60, 15),
+  ('high', 240, 30),
+  ('medium', 1440, 120),
+  ('low', 4320, 240);
+
+ALTER TABLE public.escalated_queries
+  ADD COLUMN priority public.escalation_priority NOT NULL DEFAULT 'medium',
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN sla_due_at TIMESTAMP WITH TIME ZONE,
+  -- Set once the about-to-breach notification has been sent
+  ADD COLUMN sla_warning_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_escalated_queries_assigned_to ON public.escalated_queries(assigned_to);
+CREATE INDEX idx_escalated_queries_sla_due_at ON public.escalated_queries(sla_due_at)
+  WHERE status IN ('pending', 'assigned', 'in_progress');
+
+-- Deadlines count from when the escalation was opened, so changing the priority moves
+-- the deadline rather than restarting it
+CREATE OR REPLACE FUNCTION public.set_escalation_sla_due_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  minutes integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.priority IS NOT DISTINCT FROM OLD.priority THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT resolution_minutes INTO minutes
+  FROM public.escalation_sla_policies
+  WHERE priority = NEW.priority;
+
+  NEW.sla_due_at := CASE
+    WHEN minutes IS NULL THEN NULL
+    ELSE COALESCE(NEW.created_at, now()) + make_interval(mins => minutes)
+  END;
+  NEW.sla_warning_sent_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_escalated_queries_sla_due_at
+  BEFORE INSERT OR UPDATE OF priority ON public.escalated_queries
+  FOR EACH ROW EXECUTE FUNCTION public.set_escalation_sla_due_at();
+
+UPDATE public.escalated_queries q
+SET sla_due_at = COALESCE(q.created_at, now()) + make_interval(mins => p.resolution_minutes)
+FROM public.escalation_sla_policies p
+WHERE p.priority = q.priority;
+
+-- Keep assigned_at in step with assigned_to
+CREATE OR REPLACE FUNCTION public.set_escalation_assigned_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_escalated_queries_assigned_at
+  BEFORE UPDATE OF assigned_to ON public.escalated_queries
+  FOR EACH ROW EXECUTE FUNCTION public.set_escalation_assigned_at();
+
+-- Notifies admins once about each open escalation that is close to or past its deadline.
+-- Runs every five minutes from pg_cron.
+CREATE OR REPLACE FUNCTION public.check_escalation_slas()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  escalation record;
+  notified integer := 0;
+BEGIN
+  FOR escalation IN
+    SELECT q.id, q.priority, q.sla_due_at, q.assigned_to, q.original_question
+    FROM public.escalated_queries q
+    JOIN public.escalation_sla_policies p ON p.priority = q.priority
+    WHERE q.status IN ('pending', 'assigned', 'in_progress')
+      AND q.sla_warning_sent_at IS NULL
+      AND q.sla_due_at - make_interval(mins => p.warning_minutes) <= now()
+    FOR UPDATE OF q SKIP LOCKED
+  LOOP
+    PERFORM public.create_admin_notification(
+      'sla_warning',
+      CASE WHEN escalation.sla_due_at <= now() THEN 'SLA Breached' ELSE 'SLA About to Breach' END,
+      format('A %s priority escalation is due %s', escalation.priority,
+        to_char(escalation.sla_due_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')),
+      jsonb_build_object(
+        'escalation_id', escalation.id,
+        'priority', escalation.priority,
+        'sla_due_at', escalation.sla_due_at,
+        'assigned_to', escalation.assigned_to,
+        'original_question', escalation.original_question
+      )
+    );
+
+    UPDATE public.escalated_queries SET sla_warning_sent_at = now() WHERE id = escalation.id;
+    notified := notified + 1;
+  END LOOP;
+
+  RETURN notified;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_escalation_slas() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'check-escalation-slas',
+  '*/5 * * * *',
+  'SELECT public.check_escalation_slas()'
+);
@@ -0,0 +1,126 @@
+-- Escalation categories and automatic triage of new escalations
+CREATE TYPE public.escalation_category AS ENUM (
+  'billing',
+  'delivery',
+  'hardware_fault',
+  'returns',
+  'account',
+  'product_question',
+  'other'
+);
+
+ALTER TABLE public.escalated_queries
+  ADD COLUMN category public.escalation_category NOT NULL DEFAULT 'other',
+  -- What the automatic triage based the category and priority on
+  ADD COLUMN triage_signals JSONB;
+
+CREATE INDEX idx_escalated_queries_priority_category ON public.escalated_queries(priority, category);
+
+-- Sets the category and priority of a new escalation from the question, the customer's
+-- recent messages in the session and the state of their orders. Admins can change both
+-- afterwards. Runs before set_escalated_queries_sla_due_at (triggers fire in name order)
+-- so the SLA deadline uses the inferred priority.
+CREATE OR REPLACE FUNCTION public.classify_escalated_query()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  question text := lower(COALESCE(NEW.original_question, ''));
+  context text;
+  rule record;
+  rule_score integer;
+  scores jsonb := '{}';
+  best_category public.escalation_category := 'other';
+  best_score integer := 0;
+  open_orders integer := 0;
+  late_orders integer := 0;
+  recent_delivery boolean := false;
+  urgent boolean;
+  automatic boolean := COALESCE(NEW.escalation_reason, '') LIKE 'Automatic escalation%';
+BEGIN
+  SELECT string_agg(recent.content, ' ') INTO context
+  FROM (
+    SELECT m.content
+    FROM public.messages m
+    WHERE m.session_id = NEW.session_id AND m.message_type = 'user'
+    ORDER BY m.created_at DESC
+    LIMIT 10
+  ) recent;
+
+  context := lower(concat_ws(' ', NEW.escalation_reason, NEW.customer_feedback, context));
+
+  -- Words in the question itself count double
+  FOR rule IN
+    SELECT * FROM (VALUES
+      ('billing'::public.escalation_category,
+        '\y(refund\w*|charge[ds]?|charging me|payment\w*|paid|invoice\w*|billing|billed|receipt|credit card|overcharg\w*|discount|coupon)\y'),
+      ('delivery'::public.escalation_category,
+        '\y(deliver\w*|shipping|shipped|shipment|tracking|track|courier|arriv\w*|package|parcel|dispatch\w*|late|delay\w*|lost|where is my order)\y'),
+      ('hardware_fault'::public.escalation_category,
+        '\y(broken|broke|faulty|fault|defect\w*|not working|stopped working|won''?t (start|turn on|charge)|doesn''?t (start|turn on|charge)|crack\w*|damaged|battery|motor|brakes?|tyres?|tires?|puncture\w*|display|error code|noise|rattl\w*|overheat\w*|throttle)\y'),
+      ('returns'::public.escalation_category,
+        '\y(return\w*|exchange|warranty|replacement|replace|send it back|cancel\w*)\y'),
+      ('account'::public.escalation_category,
+        '\y(log ?in|sign ?in|password|account|email address|profile|verif\w*)\y'),
+      ('product_question'::public.escalation_category,
+        '\y(specs?|specifications?|range|top speed|weight|compatib\w*|which model|difference|recommend\w*|colou?rs?|sizes?)\y')
+    ) AS rules(category, pattern)
+  LOOP
+    SELECT 2 * (SELECT count(*) FROM regexp_matches(question, rule.pattern, 'g'))
+      + (SELECT count(*) FROM regexp_matches(context, rule.pattern, 'g'))
+    INTO rule_score;
+
+    IF rule_score > 0 THEN
+      scores := scores || jsonb_build_object(rule.category::text, rule_score);
+    END IF;
+    IF rule_score > best_score THEN
+      best_category := rule.category;
+      best_score := rule_score;
+    END IF;
+  END LOOP;
+
+  IF NEW.user_id IS NOT NULL THEN
+    SELECT
+      count(*) FILTER (WHERE o.status IN ('pending', 'confirmed', 'shipped')),
+      count(*) FILTER (WHERE o.status IN ('pending', 'confirmed', 'shipped') AND o.estimated_delivery < now()),
+      COALESCE(bool_or(o.status = 'delivered' AND o.actual_delivery > now() - interval '30 days'), false)
+    INTO open_orders, late_orders, recent_delivery
+    FROM public.orders o
+    WHERE o.user_id = NEW.user_id;
+  END IF;
+
+  -- With nothing to go on, an order still on its way is the likeliest topic
+  IF best_score = 0 AND open_orders > 0 THEN
+    best_category := 'delivery';
+  END IF;
+
+  urgent := (question || ' ' || context) ~ '\y(urgent\w*|asap|immediately|emergency|fraud\w*|unauthori[sz]ed|stolen|charged twice|double charged|fire|smok\w*|spark\w*|injur\w*|unsafe|danger\w*)\y';
+
+  NEW.category := best_category;
+  NEW.priority := CASE
+    WHEN urgent THEN 'urgent'
+    WHEN best_category = 'billing'
+      OR (best_category = 'delivery' AND late_orders > 0)
+      OR (best_category = 'hardware_fault' AND recent_delivery)
+      OR automatic THEN 'high'
+    WHEN best_category IN ('product_question', 'other') AND open_orders = 0 THEN 'low'
+    ELSE 'medium'
+  END::public.escalation_priority;
+  NEW.triage_signals := jsonb_build_object(
+    'category_scores', scores,
+    'urgent_terms', urgent,
+    'open_orders', open_orders,
+    'late_orders', late_orders,
+    'recent_delivery', recent_delivery,
+    'automatic_escalation', automatic
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER classify_escalated_queries
+  BEFORE INSERT ON public.escalated_queries
+  FOR EACH ROW EXECUTE FUNCTION public.classify_escalated_query();
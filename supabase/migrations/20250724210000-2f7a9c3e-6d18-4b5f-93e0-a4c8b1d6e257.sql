@@ -0,0 +1,144 @@
+-- Customer satisfaction surveys on resolved escalations, and reopening by the customer
+ALTER TABLE public.escalated_queries
+  ADD COLUMN resolved_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  ADD COLUMN reopened_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reopen_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.escalation_surveys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  escalation_id UUID NOT NULL REFERENCES public.escalated_queries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  -- Copied from the escalation when the survey is submitted, so a later reopen,
+  -- reassignment or recategorisation does not move the rating
+  resolved_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  category public.escalation_category,
+  -- The customer reopened the escalation instead of accepting the resolution
+  reopened BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- One survey per resolution; a reopened escalation can be rated again
+  UNIQUE (escalation_id, resolved_at)
+);
+
+ALTER TABLE public.escalation_surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own escalation surveys" ON public.escalation_surveys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rate their resolved escalations" ON public.escalation_surveys
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.escalated_queries
+      WHERE id = escalation_id AND user_id = auth.uid() AND status = 'resolved'
+    )
+  );
+
+CREATE POLICY "Admins can view all escalation surveys" ON public.escalation_surveys
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+CREATE INDEX idx_escalation_surveys_created_at ON public.escalation_surveys(created_at);
+
+CREATE OR REPLACE FUNCTION public.snapshot_escalation_survey()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  escalation record;
+BEGIN
+  SELECT status, resolved_at, COALESCE(resolved_by, assigned_to) AS admin_id, category
+  INTO escalation
+  FROM public.escalated_queries
+  WHERE id = NEW.escalation_id;
+
+  IF escalation.status IS DISTINCT FROM 'resolved' OR escalation.resolved_at IS NULL THEN
+    RAISE EXCEPTION 'Only resolved escalations can be rated';
+  END IF;
+
+  NEW.resolved_at := escalation.resolved_at;
+  NEW.admin_id := escalation.admin_id;
+  NEW.category := escalation.category;
+  NEW.reopened := FALSE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_escalation_surveys
+  BEFORE INSERT ON public.escalation_surveys
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_escalation_survey();
+
+-- Lets the customer reopen a resolved escalation they are not satisfied with. The query
+-- goes back to whoever had it, with a fresh SLA deadline. A rating given with the reopen
+-- is recorded in the same transaction, so a failed reopen does not use up the survey.
+CREATE OR REPLACE FUNCTION public.reopen_escalation(
+  target_escalation_id uuid,
+  survey_rating smallint DEFAULT NULL,
+  survey_comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  escalation record;
+  minutes integer;
+  survey record;
+BEGIN
+  SELECT id, user_id, status, priority, resolved_at, assigned_to, original_question
+  INTO escalation
+  FROM public.escalated_queries
+  WHERE id = target_escalation_id
+  FOR UPDATE;
+
+  IF escalation.id IS NULL OR escalation.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Escalation not found';
+  END IF;
+  IF escalation.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved escalations can be reopened';
+  END IF;
+
+  IF survey_rating IS NOT NULL THEN
+    INSERT INTO public.escalation_surveys (escalation_id, user_id, rating, comment)
+    VALUES (target_escalation_id, escalation.user_id, survey_rating, survey_comment);
+  END IF;
+
+  SELECT resolution_minutes INTO minutes
+  FROM public.escalation_sla_policies
+  WHERE priority = escalation.priority;
+
+  UPDATE public.escalated_queries
+  SET status = CASE WHEN assigned_to IS NULL THEN 'pending' ELSE 'assigned' END::public.escalation_status,
+      resolved_at = NULL,
+      reopened_at = now(),
+      reopen_count = reopen_count + 1,
+      sla_due_at = CASE WHEN minutes IS NULL THEN NULL ELSE now() + make_interval(mins => minutes) END,
+      sla_warning_sent_at = NULL
+  WHERE id = target_escalation_id;
+
+  UPDATE public.escalation_surveys
+  SET reopened = TRUE
+  WHERE escalation_id = target_escalation_id AND resolved_at = escalation.resolved_at
+  RETURNING rating, comment INTO survey;
+
+  PERFORM public.create_admin_notification(
+    'escalation_reopened',
+    'Query Reopened',
+    'A customer reopened a resolved query',
+    jsonb_build_object(
+      'escalation_id', escalation.id,
+      'user_id', escalation.user_id,
+      'assigned_to', escalation.assigned_to,
+      'original_question', escalation.original_question,
+      'rating', survey.rating,
+      'comment', survey.comment
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reopen_escalation(uuid, smallint, text) FROM PUBLIC, anon;
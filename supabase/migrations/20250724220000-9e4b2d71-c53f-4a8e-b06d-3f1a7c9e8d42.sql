@@ -0,0 +1,209 @@
+-- Append-only history of each escalation: status, assignment, priority and category
+-- changes, resolution notes, replies, surveys and internal admin notes
+CREATE TABLE public.escalation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  escalation_id UUID NOT NULL REFERENCES public.escalated_queries(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'created',
+    'status_changed',
+    'reopened',
+    'assigned',
+    'unassigned',
+    'priority_changed',
+    'category_changed',
+    'resolution_notes',
+    'customer_reply',
+    'agent_reply',
+    'survey_submitted',
+    'note'
+  )),
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('admin', 'customer', 'system')),
+  actor_id UUID, -- admin_users.id or users.id depending on actor_type; NULL for system
+  from_value TEXT,
+  to_value TEXT,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.escalation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view escalation events" ON public.escalation_events
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+-- Everything else is written by the triggers below
+CREATE POLICY "Admins can add notes to escalations" ON public.escalation_events
+  FOR INSERT WITH CHECK (
+    public.is_admin_user(auth.uid())
+    AND event_type = 'note'
+    AND actor_type = 'admin'
+    AND actor_id = auth.uid()
+  );
+
+CREATE INDEX idx_escalation_events_escalation_id ON public.escalation_events(escalation_id, created_at);
+CREATE INDEX idx_escalation_events_type_created_at ON public.escalation_events(event_type, created_at);
+
+ALTER TABLE public.escalation_events REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.escalation_events;
+
+-- Events can never be changed. They are only deleted together with their escalation,
+-- which reaches this trigger through the foreign key cascade.
+CREATE OR REPLACE FUNCTION public.prevent_escalation_event_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Escalation events are append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_escalation_events_changes
+  BEFORE UPDATE OR DELETE ON public.escalation_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_escalation_event_changes();
+
+-- Records one event, attributing it to the signed-in user
+CREATE OR REPLACE FUNCTION public.log_escalation_event(
+  target_escalation_id uuid,
+  escalation_user_id uuid,
+  new_event_type text,
+  old_value text DEFAULT NULL,
+  new_value text DEFAULT NULL,
+  event_details jsonb DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+BEGIN
+  INSERT INTO public.escalation_events (escalation_id, event_type, actor_type, actor_id, from_value, to_value, details)
+  VALUES (
+    target_escalation_id,
+    new_event_type,
+    CASE
+      WHEN actor IS NULL THEN 'system'
+      WHEN public.is_admin_user(actor) THEN 'admin'
+      WHEN actor = escalation_user_id THEN 'customer'
+      ELSE 'system'
+    END,
+    actor,
+    old_value,
+    new_value,
+    event_details
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_escalation_event(uuid, uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_escalation_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'created', NULL, NEW.status::text,
+      jsonb_build_object(
+        'reason', NEW.escalation_reason,
+        'priority', NEW.priority,
+        'category', NEW.category
+      ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'resolved' AND NEW.reopen_count > OLD.reopen_count THEN
+      PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'reopened', OLD.status::text, NEW.status::text);
+    ELSE
+      PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'status_changed', OLD.status::text, NEW.status::text);
+    END IF;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    PERFORM public.log_escalation_event(NEW.id, NEW.user_id,
+      CASE WHEN NEW.assigned_to IS NULL THEN 'unassigned' ELSE 'assigned' END,
+      OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'category_changed', OLD.category::text, NEW.category::text);
+  END IF;
+
+  IF NEW.resolution_notes IS DISTINCT FROM OLD.resolution_notes THEN
+    PERFORM public.log_escalation_event(NEW.id, NEW.user_id, 'resolution_notes', OLD.resolution_notes, NEW.resolution_notes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_escalated_queries_changes
+  AFTER INSERT OR UPDATE ON public.escalated_queries
+  FOR EACH ROW EXECUTE FUNCTION public.record_escalation_changes();
+
+CREATE OR REPLACE FUNCTION public.record_escalation_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.log_escalation_event(
+    NEW.escalation_id,
+    (SELECT user_id FROM public.escalated_queries WHERE id = NEW.escalation_id),
+    CASE WHEN NEW.sender = 'customer' THEN 'customer_reply' ELSE 'agent_reply' END,
+    NULL,
+    NULL,
+    jsonb_build_object('reply_id', NEW.id, 'excerpt', left(NEW.content, 200))
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_escalation_replies
+  AFTER INSERT ON public.escalation_replies
+  FOR EACH ROW EXECUTE FUNCTION public.record_escalation_reply();
+
+CREATE OR REPLACE FUNCTION public.record_escalation_survey()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.log_escalation_event(
+    NEW.escalation_id,
+    NEW.user_id,
+    'survey_submitted',
+    NULL,
+    NEW.rating::text,
+    jsonb_build_object('survey_id', NEW.id, 'comment', NEW.comment)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_escalation_surveys
+  AFTER INSERT ON public.escalation_surveys
+  FOR EACH ROW EXECUTE FUNCTION public.record_escalation_survey();
+
+-- Start the history of existing escalations with when they were opened
+INSERT INTO public.escalation_events (escalation_id, event_type, actor_type, actor_id, to_value, details, created_at)
+SELECT id, 'created', 'system', NULL, 'pending',
+  jsonb_build_object('reason', escalation_reason, 'priority', priority, 'category', category),
+  COALESCE(created_at, now())
+FROM public.escalated_queries;
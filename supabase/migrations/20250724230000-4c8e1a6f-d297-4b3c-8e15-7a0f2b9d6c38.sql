@@ -0,0 +1,228 @@
+-- Role-based access for admins. Every active admin can still read the admin data;
+-- changing it requires a permission granted to their role. Super admins have every
+-- permission and are the only ones who can change roles and what they grant.
+CREATE TYPE public.admin_permission AS ENUM (
+  'faq.manage',         -- FAQ items, categories and intent patterns
+  'orders.manage',      -- Orders and order inquiries
+  'escalations.manage', -- Work escalated queries: assign, reply, resolve, add notes
+  'chats.manage',       -- Take over chat sessions and talk to customers
+  'users.manage',       -- Edit and deactivate customer accounts
+  'settings.manage',    -- Assistant settings, rate limits and SLA policies
+  'analytics.view'      -- Analytics and the confidence report
+);
+
+-- Existing admins keep full access
+UPDATE public.admin_users SET role = 'super_admin' WHERE role IS NULL OR role = 'admin';
+
+ALTER TABLE public.admin_users DROP CONSTRAINT admin_users_role_check;
+ALTER TABLE public.admin_users
+  ALTER COLUMN role SET DEFAULT 'support_agent',
+  ALTER COLUMN role SET NOT NULL,
+  ADD CONSTRAINT admin_users_role_check
+    CHECK (role IN ('super_admin', 'support_agent', 'content_editor', 'order_manager'));
+
+-- What each role may do. super_admin is not listed: it always has every permission.
+CREATE TABLE public.admin_role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('support_agent', 'content_editor', 'order_manager')),
+  permission public.admin_permission NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.admin_role_permissions ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.admin_role_permissions (role, permission) VALUES
+  ('support_agent', 'escalations.manage'),
+  ('support_agent', 'chats.manage'),
+  ('support_agent', 'analytics.view'),
+  ('content_editor', 'faq.manage'),
+  ('content_editor', 'analytics.view'),
+  ('order_manager', 'orders.manage');
+
+CREATE OR REPLACE FUNCTION public.is_super_admin(user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admin_users
+    WHERE id = user_id AND is_active = true AND role = 'super_admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_admin_permission(user_id uuid, required_permission public.admin_permission)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admin_users a
+    WHERE a.id = user_id
+      AND a.is_active = true
+      AND (
+        a.role = 'super_admin'
+        OR EXISTS (
+          SELECT 1 FROM public.admin_role_permissions p
+          WHERE p.role = a.role AND p.permission = required_permission
+        )
+      )
+  );
+$$;
+
+-- Permissions of the signed-in admin, used by the admin panel to show what they can do
+CREATE OR REPLACE FUNCTION public.get_admin_permissions()
+RETURNS public.admin_permission[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN a.role = 'super_admin' THEN enum_range(NULL::public.admin_permission)
+    ELSE ARRAY(
+      SELECT p.permission FROM public.admin_role_permissions p
+      WHERE p.role = a.role
+      ORDER BY p.permission
+    )
+  END
+  FROM public.admin_users a
+  WHERE a.id = auth.uid() AND a.is_active = true;
+$$;
+
+CREATE POLICY "Admins can view role permissions" ON public.admin_role_permissions
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+CREATE POLICY "Super admins can manage role permissions" ON public.admin_role_permissions
+  FOR ALL USING (public.is_super_admin(auth.uid()));
+
+-- Only super admins change roles or activate admins, and the last super admin cannot
+-- demote or deactivate themselves
+CREATE POLICY "Super admins can update admin users" ON public.admin_users
+  FOR UPDATE USING (public.is_super_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.protect_admin_user_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.role IS NOT DISTINCT FROM OLD.role AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only super admins can change admin roles';
+  END IF;
+
+  IF OLD.role = 'super_admin' AND OLD.is_active
+    AND (NEW.role <> 'super_admin' OR NOT NEW.is_active)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE id <> OLD.id AND role = 'super_admin' AND is_active = true
+    ) THEN
+    RAISE EXCEPTION 'At least one active super admin is required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_admin_users_role
+  BEFORE UPDATE ON public.admin_users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_admin_user_role();
+
+-- FAQ content
+DROP POLICY "Admins can manage QA categories" ON public.qa_categories;
+CREATE POLICY "Admins can view all QA categories" ON public.qa_categories
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Content editors can manage QA categories" ON public.qa_categories
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'faq.manage'));
+
+DROP POLICY "Admins can manage QA items" ON public.qa_items;
+CREATE POLICY "Admins can view all QA items" ON public.qa_items
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Content editors can manage QA items" ON public.qa_items
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'faq.manage'));
+
+DROP POLICY "Admins can manage intent patterns" ON public.intent_patterns;
+CREATE POLICY "Admins can view intent patterns" ON public.intent_patterns
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Content editors can manage intent patterns" ON public.intent_patterns
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'faq.manage'));
+
+-- Orders
+DROP POLICY "Admins can manage orders" ON public.orders;
+CREATE POLICY "Order managers can manage orders" ON public.orders
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'orders.manage'));
+
+CREATE POLICY "Order managers can update order inquiries" ON public.order_inquiries
+  FOR UPDATE USING (public.has_admin_permission(auth.uid(), 'orders.manage'));
+
+-- Escalations
+DROP POLICY "Admins can manage escalated queries" ON public.escalated_queries;
+CREATE POLICY "Admins can view all escalated queries" ON public.escalated_queries
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Support agents can manage escalated queries" ON public.escalated_queries
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'escalations.manage'));
+
+DROP POLICY "Admins can reply to escalations" ON public.escalation_replies;
+CREATE POLICY "Admins can reply to escalations" ON public.escalation_replies
+  FOR INSERT WITH CHECK (
+    public.has_admin_permission(auth.uid(), 'escalations.manage')
+    AND sender = 'agent'
+    AND admin_id = auth.uid()
+    AND user_id IS NULL
+  );
+
+DROP POLICY "Admins can add notes to escalations" ON public.escalation_events;
+CREATE POLICY "Admins can add notes to escalations" ON public.escalation_events
+  FOR INSERT WITH CHECK (
+    public.has_admin_permission(auth.uid(), 'escalations.manage')
+    AND event_type = 'note'
+    AND actor_type = 'admin'
+    AND actor_id = auth.uid()
+  );
+
+-- Live chat
+DROP POLICY "Admins can update chat sessions" ON public.chat_sessions;
+CREATE POLICY "Admins can update chat sessions" ON public.chat_sessions
+  FOR UPDATE USING (public.has_admin_permission(auth.uid(), 'chats.manage'));
+
+DROP POLICY "Admins can send agent messages" ON public.messages;
+CREATE POLICY "Admins can send agent messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    public.has_admin_permission(auth.uid(), 'chats.manage')
+    AND message_type = 'agent'
+    AND author_id = auth.uid()
+  );
+
+-- Customer accounts
+CREATE POLICY "Admins can view all users" ON public.users
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "User managers can update users" ON public.users
+  FOR UPDATE USING (public.has_admin_permission(auth.uid(), 'users.manage'));
+
+-- Settings
+DROP POLICY "Admins can manage rate limit settings" ON public.rate_limit_settings;
+CREATE POLICY "Admins can view rate limit settings" ON public.rate_limit_settings
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Settings managers can manage rate limit settings" ON public.rate_limit_settings
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'settings.manage'));
+
+DROP POLICY "Admins can manage auto escalation settings" ON public.auto_escalation_settings;
+CREATE POLICY "Admins can view auto escalation settings" ON public.auto_escalation_settings
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Settings managers can manage auto escalation settings" ON public.auto_escalation_settings
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'settings.manage'));
+
+DROP POLICY "Admins can manage escalation SLA policies" ON public.escalation_sla_policies;
+CREATE POLICY "Admins can view escalation SLA policies" ON public.escalation_sla_policies
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Settings managers can manage escalation SLA policies" ON public.escalation_sla_policies
+  FOR ALL USING (public.has_admin_permission(auth.uid(), 'settings.manage'));
@@ -0,0 +1,26 @@
+-- One-time invitations for new admins. Invitations are created and redeemed by the
+-- admin-users edge function; only a SHA-256 hash of the token is stored, so the link
+-- shown to the inviting super admin is the only copy.
+CREATE TABLE public.admin_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('super_admin', 'support_agent', 'content_editor', 'order_manager')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for super admins; all writes go through the edge function
+CREATE POLICY "Super admins can view admin invitations" ON public.admin_invitations
+  FOR SELECT USING (public.is_super_admin(auth.uid()));
+
+-- At most one open invitation per address
+CREATE UNIQUE INDEX idx_admin_invitations_pending_email ON public.admin_invitations(lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
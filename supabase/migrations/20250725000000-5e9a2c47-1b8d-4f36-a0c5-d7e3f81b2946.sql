@@ -0,0 +1,11 @@
+-- Read access and indexes for the customer profile in the admin panel, which shows
+-- everything a customer has done on one timeline
+CREATE POLICY "Admins can view all file uploads" ON public.file_uploads
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+CREATE POLICY "Admins can view chat files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'chat-files' AND public.is_admin_user(auth.uid()));
+
+CREATE INDEX idx_order_inquiries_user_id ON public.order_inquiries(user_id);
+CREATE INDEX idx_escalated_queries_user_id ON public.escalated_queries(user_id);
+CREATE INDEX idx_escalation_surveys_user_id ON public.escalation_surveys(user_id);
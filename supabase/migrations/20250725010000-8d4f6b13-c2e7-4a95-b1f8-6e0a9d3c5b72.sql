@@ -0,0 +1,170 @@
+-- Customer data rights: self-service export and account deletion. Deletion is requested
+-- by the customer, approved by an admin with `users.manage` and carried out by the
+-- customer-data edge function. Every step is recorded in data_request_events.
+CREATE TABLE public.data_deletion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: the request outlives the account it deletes
+  user_id UUID NOT NULL,
+  email TEXT,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'completed')),
+  reviewed_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  -- Rows and files removed or anonymized, per table
+  summary JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.data_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the edge function
+CREATE POLICY "Users can view their own deletion requests" ON public.data_deletion_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view deletion requests" ON public.data_deletion_requests
+  FOR SELECT USING (public.has_admin_permission(auth.uid(), 'users.manage'));
+
+-- One open request per customer
+CREATE UNIQUE INDEX idx_data_deletion_requests_open_user ON public.data_deletion_requests(user_id)
+  WHERE status IN ('pending', 'approved');
+CREATE INDEX idx_data_deletion_requests_status ON public.data_deletion_requests(status, created_at);
+
+CREATE TRIGGER update_data_deletion_requests_updated_at
+  BEFORE UPDATE ON public.data_deletion_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.notify_data_deletion_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.create_admin_notification(
+    'data_deletion_request',
+    'Account Deletion Requested',
+    COALESCE(NEW.email, 'A customer') || ' asked for their account and data to be deleted',
+    jsonb_build_object(
+      'request_id', NEW.id,
+      'user_id', NEW.user_id,
+      'reason', NEW.reason
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_data_deletion_request_trigger
+  AFTER INSERT ON public.data_deletion_requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_data_deletion_request();
+
+-- Audit trail of exports and deletion requests. Kept after the account is erased.
+CREATE TABLE public.data_request_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID REFERENCES public.data_deletion_requests(id),
+  user_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'exported',
+    'deletion_requested',
+    'deletion_cancelled',
+    'deletion_approved',
+    'deletion_rejected',
+    'deletion_completed',
+    'deletion_failed'
+  )),
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('admin', 'customer', 'system')),
+  actor_id UUID,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.data_request_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view data request events" ON public.data_request_events
+  FOR SELECT USING (public.has_admin_permission(auth.uid(), 'users.manage'));
+
+CREATE INDEX idx_data_request_events_request_id ON public.data_request_events(request_id, created_at);
+CREATE INDEX idx_data_request_events_user_id ON public.data_request_events(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.prevent_data_request_event_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Data request events are append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_data_request_events_changes
+  BEFORE UPDATE OR DELETE ON public.data_request_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_data_request_event_changes();
+
+-- Removes a customer's personal data. Conversations, files, inquiries, escalations and
+-- interactions are deleted; orders are kept for accounting but detached from the
+-- customer and stripped of the delivery address and notes. The profile itself goes
+-- with the auth user, which the edge function deletes afterwards. Storage objects are
+-- removed by the edge function through the storage API.
+CREATE OR REPLACE FUNCTION public.erase_customer_data(target_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  summary jsonb := '{}';
+  affected integer;
+BEGIN
+  IF public.is_admin_user(target_user_id) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be erased this way';
+  END IF;
+
+  -- Escalations take their replies, surveys and history with them
+  DELETE FROM public.escalated_queries WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('escalated_queries', affected);
+
+  DELETE FROM public.order_inquiries WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('order_inquiries', affected);
+
+  DELETE FROM public.user_interactions WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('user_interactions', affected);
+
+  DELETE FROM public.uploaded_files WHERE uploaded_by = target_user_id;
+
+  DELETE FROM public.file_uploads WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('file_uploads', affected);
+
+  SELECT count(*) INTO affected
+  FROM public.messages m
+  JOIN public.chat_sessions s ON s.id = m.session_id
+  WHERE s.user_id = target_user_id;
+  summary := summary || jsonb_build_object('messages', affected);
+
+  DELETE FROM public.typing_status WHERE user_id = target_user_id;
+
+  -- Messages go with their sessions
+  DELETE FROM public.chat_sessions WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('chat_sessions', affected);
+
+  UPDATE public.orders
+  SET user_id = NULL, delivery_address = NULL, notes = NULL
+  WHERE user_id = target_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  summary := summary || jsonb_build_object('orders_anonymized', affected);
+
+  DELETE FROM public.admin_notifications WHERE data->>'user_id' = target_user_id::text;
+  DELETE FROM public.rate_limit_buckets WHERE key = 'user:' || target_user_id::text;
+
+  RETURN summary;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.erase_customer_data(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,239 @@
+-- Retention rules for chat data, one per table. Every night pg_cron calls the
+-- data-retention edge function, which runs apply_retention_policies() and removes the
+-- storage objects of the deleted uploads. Policies start disabled, except for typing
+-- indicators, so nothing is purged until an admin chooses how long to keep it.
+CREATE TABLE public.retention_policies (
+  target_table TEXT PRIMARY KEY CHECK (target_table IN ('chat_sessions', 'file_uploads', 'messages', 'typing_status')),
+  action TEXT NOT NULL CHECK (action IN ('delete', 'anonymize')),
+  retain_days INTEGER NOT NULL CHECK (retain_days > 0), -- Rows older than this are purged
+  is_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES public.admin_users(id),
+  -- Closed sessions are anonymized rather than deleted, so analytics keep their shape
+  CHECK ((target_table = 'chat_sessions') = (action = 'anonymize'))
+);
+
+CREATE TABLE public.retention_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when started by the nightly schedule
+  triggered_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  -- Rows deleted or anonymized, per table
+  results JSONB NOT NULL DEFAULT '{}',
+  storage_objects_removed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retention_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view retention policies" ON public.retention_policies
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+CREATE POLICY "Settings managers can update retention policies" ON public.retention_policies
+  FOR UPDATE USING (public.has_admin_permission(auth.uid(), 'settings.manage'));
+
+-- Runs are written by the edge function
+CREATE POLICY "Admins can view retention runs" ON public.retention_runs
+  FOR SELECT USING (public.is_admin_user(auth.uid()));
+
+CREATE INDEX idx_retention_runs_finished_at ON public.retention_runs(finished_at DESC);
+
+CREATE INDEX idx_messages_created_at ON public.messages(created_at);
+CREATE INDEX idx_file_uploads_created_at ON public.file_uploads(created_at);
+
+CREATE TRIGGER update_retention_policies_updated_at
+  BEFORE UPDATE ON public.retention_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.retention_policies (target_table, action, retain_days, is_enabled) VALUES
+  ('chat_sessions', 'anonymize', 365, FALSE),
+  ('file_uploads', 'delete', 90, FALSE),
+  ('messages', 'delete', 730, FALSE),
+  ('typing_status', 'delete', 1, TRUE);
+
+-- Customers can write their own file_uploads.storage_path, so a path is only removed
+-- from storage when it lies in the folder of the customer who owns the row
+CREATE OR REPLACE FUNCTION public.is_user_storage_path(path text, owner_id uuid)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT starts_with(path, owner_id::text || '/') AND NOT ('..' = ANY(string_to_array(path, '/')));
+$$;
+
+-- What each policy would purge if it ran now, including disabled ones. Uploads deleted
+-- along with their messages count towards that policy's storage objects.
+CREATE OR REPLACE FUNCTION public.preview_retention_policies()
+RETURNS TABLE (
+  target_table text,
+  action text,
+  is_enabled boolean,
+  cutoff timestamptz,
+  affected_rows bigint,
+  storage_objects bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  policy record;
+BEGIN
+  IF NOT public.has_admin_permission(auth.uid(), 'settings.manage') THEN
+    RAISE EXCEPTION 'Settings management permission required';
+  END IF;
+
+  FOR policy IN SELECT * FROM public.retention_policies ORDER BY target_table LOOP
+    target_table := policy.target_table;
+    action := policy.action;
+    is_enabled := policy.is_enabled;
+    cutoff := now() - make_interval(days => policy.retain_days);
+    storage_objects := 0;
+
+    CASE policy.target_table
+      WHEN 'chat_sessions' THEN
+        SELECT count(*) INTO affected_rows
+        FROM public.chat_sessions s
+        WHERE s.is_active = false AND s.user_id IS NOT NULL AND s.updated_at < cutoff;
+        SELECT count(*) INTO storage_objects
+        FROM public.file_uploads f
+        JOIN public.chat_sessions s ON s.id = f.session_id
+        WHERE s.is_active = false AND s.user_id IS NOT NULL AND s.updated_at < cutoff
+          AND public.is_user_storage_path(f.storage_path, f.user_id);
+      WHEN 'file_uploads' THEN
+        SELECT count(*), count(*) FILTER (WHERE public.is_user_storage_path(f.storage_path, f.user_id))
+        INTO affected_rows, storage_objects
+        FROM public.file_uploads f
+        WHERE f.created_at < cutoff;
+      WHEN 'messages' THEN
+        SELECT count(*) INTO affected_rows
+        FROM public.messages m
+        WHERE m.created_at < cutoff;
+        SELECT count(*) INTO storage_objects
+        FROM public.file_uploads f
+        JOIN public.messages m ON m.id = f.message_id
+        WHERE m.created_at < cutoff
+          AND public.is_user_storage_path(f.storage_path, f.user_id);
+      WHEN 'typing_status' THEN
+        SELECT count(*) INTO affected_rows
+        FROM public.typing_status t
+        WHERE t.updated_at < cutoff;
+    END CASE;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_retention_policies() FROM PUBLIC, anon;
+
+-- Applies every enabled policy and returns the row counts per table together with the
+-- storage paths of the deleted uploads, which the caller removes from the bucket.
+-- Anonymizing a closed session detaches it from the customer, clears its title and
+-- summary, and redacts every message in it, since answers and agent replies often quote
+-- the customer. Its uploads and typing indicators name the customer and are deleted.
+CREATE OR REPLACE FUNCTION public.apply_retention_policies()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  policy record;
+  cutoff timestamptz;
+  affected integer;
+  session_ids uuid[];
+  paths text[];
+  storage_paths text[] := '{}';
+  results jsonb := '{}';
+BEGIN
+  FOR policy IN SELECT * FROM public.retention_policies WHERE is_enabled ORDER BY target_table LOOP
+    cutoff := now() - make_interval(days => policy.retain_days);
+    affected := 0;
+
+    CASE policy.target_table
+      WHEN 'chat_sessions' THEN
+        SELECT coalesce(array_agg(id), '{}') INTO session_ids
+        FROM public.chat_sessions
+        WHERE is_active = false AND user_id IS NOT NULL AND updated_at < cutoff;
+
+        -- Only what analytics reads from the metadata is kept
+        UPDATE public.messages
+        SET content = '[removed]',
+            file_attachments = '[]',
+            metadata = jsonb_strip_nulls(jsonb_build_object(
+              'confidence_score', metadata->'confidence_score',
+              'response_source', metadata->'response_source',
+              'event', metadata->'event'
+            ))
+        WHERE session_id = ANY(session_ids);
+
+        WITH deleted AS (
+          DELETE FROM public.file_uploads WHERE session_id = ANY(session_ids) RETURNING storage_path, user_id
+        )
+        SELECT coalesce(array_agg(storage_path) FILTER (WHERE public.is_user_storage_path(storage_path, user_id)), '{}')
+        INTO paths FROM deleted;
+        storage_paths := storage_paths || paths;
+
+        DELETE FROM public.typing_status WHERE session_id = ANY(session_ids);
+
+        UPDATE public.chat_sessions
+        SET user_id = NULL, title = NULL, session_summary = NULL, summarized_until = NULL, summarized_until_id = NULL
+        WHERE id = ANY(session_ids);
+        GET DIAGNOSTICS affected = ROW_COUNT;
+      WHEN 'file_uploads' THEN
+        WITH deleted AS (
+          DELETE FROM public.file_uploads WHERE created_at < cutoff RETURNING storage_path, user_id
+        )
+        SELECT coalesce(array_agg(storage_path) FILTER (WHERE public.is_user_storage_path(storage_path, user_id)), '{}'), count(*)
+        INTO paths, affected FROM deleted;
+        storage_paths := storage_paths || paths;
+      WHEN 'messages' THEN
+        -- Uploads attached to these messages are deleted with them
+        SELECT coalesce(array_agg(f.storage_path), '{}') INTO paths
+        FROM public.file_uploads f
+        JOIN public.messages m ON m.id = f.message_id
+        WHERE m.created_at < cutoff
+          AND public.is_user_storage_path(f.storage_path, f.user_id);
+        storage_paths := storage_paths || paths;
+
+        DELETE FROM public.messages WHERE created_at < cutoff;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+      WHEN 'typing_status' THEN
+        DELETE FROM public.typing_status WHERE updated_at < cutoff;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+    END CASE;
+
+    results := results || jsonb_build_object(policy.target_table, affected);
+  END LOOP;
+
+  RETURN jsonb_build_object('results', results, 'storage_paths', to_jsonb(storage_paths));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_retention_policies() FROM PUBLIC, anon, authenticated;
+
+-- The job goes through the edge function because storage objects can only be removed
+-- through the storage API. It reads the project URL and service role key from Vault
+-- secrets named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'apply-retention-policies',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/data-retention',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
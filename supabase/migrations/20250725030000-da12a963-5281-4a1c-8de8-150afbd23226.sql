@@ -0,0 +1,36 @@
+-- Deletes rate limit buckets that have been idle long enough to refill completely. A
+-- missing bucket is recreated full by consume_rate_limit, so this changes no limits.
+-- Buckets for scopes without settings are kept for a day. Runs hourly from pg_cron.
+CREATE OR REPLACE FUNCTION public.prune_rate_limit_buckets()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  pruned integer;
+BEGIN
+  DELETE FROM public.rate_limit_buckets b
+  WHERE b.updated_at < NOW() - COALESCE(
+    (
+      SELECT make_interval(secs => s.capacity / s.refill_per_minute * 60)
+      FROM public.rate_limit_settings s
+      WHERE s.scope = split_part(b.key, ':', 1)
+    ),
+    interval '1 day'
+  );
+  GET DIAGNOSTICS pruned = ROW_COUNT;
+
+  RETURN pruned;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_rate_limit_buckets() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'prune-rate-limit-buckets',
+  '15 * * * *',
+  'SELECT public.prune_rate_limit_buckets()'
+);
@@ -0,0 +1,3 @@
+-- Uploads are capped in the browser, but customers write to the bucket directly, so the
+-- same limit is enforced by storage
+UPDATE storage.buckets SET file_size_limit = 20971520 WHERE id = 'chat-files';